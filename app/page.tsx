@@ -1,9 +1,13 @@
+import { Suspense } from 'react';
 import AddressManagerPro from '../components/address-manager/AddressManager';
 
 export default function Home() {
   return (
     <main>
-      <AddressManagerPro />
+      {/* The view state is read from the URL, which needs a Suspense boundary */}
+      <Suspense fallback={null}>
+        <AddressManagerPro />
+      </Suspense>
     </main>
   );
 }
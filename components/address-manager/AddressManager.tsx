@@ -1,20 +1,84 @@
 'use client';
 
-import React, { useCallback, useEffect, useMemo, useState, memo } from 'react';
-import { Address } from '@/lib/types';
-import { importExcelFiles, exportCSVWeb } from '@/lib/excel';
-import { isNativeCapacitor, saveDataToCSVNativeOrWeb } from '@/lib/native';
+import React, { useCallback, useEffect, useMemo, useRef, useState, memo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  Address,
+  DuplicateCandidate,
+  DuplicateDecision,
+  ExportOptions,
+  FileImportPlan,
+  FacetFilters,
+  FileImportResult,
+  ImportBatch,
+  ImportIssue,
+  ImportMode,
+  ImportProgress,
+  SheetInfo,
+  GroupOption,
+  SortField,
+  SortKey,
+  ViewState,
+} from '@/lib/types';
+import { mergeAddresses, replaceAddressData } from '@/lib/dedupe';
+import { addressBaseId, createIdAllocator } from '@/lib/ids';
+import {
+  buildCSVBlob,
+  buildXLSXBlob,
+  failedFileResult,
+  isImportableFile,
+  readWorkbookInfo,
+  SummaryRow,
+} from '@/lib/excel';
+import { isAbortError, runImport } from '@/lib/importer';
+import { buildWalkList, printWalkList } from '@/lib/walklist';
+import { applyEdit, clearChanges, deltaColumns, isChanged, toDeltaRow } from '@/lib/delta';
+import { buildICSBlob } from '@/lib/calendar';
+import { DEFAULT_VIEW_STATE, readProjectFile, saveProjectFile } from '@/lib/project';
+import { isNativeCapacitor, saveFileNativeOrWeb } from '@/lib/native';
+import { renderExportFileName } from '@/lib/exporter';
+import { parseQuery, QueryMatcher } from '@/lib/query';
+import { createSearchIndex } from '@/lib/search';
+import { activeFilterCount, applyFacets } from '@/lib/facets';
+import { createAddressComparator, sameSortKeys, toggleSortKey } from '@/lib/sort';
+import {
+  deleteViewPreset,
+  loadViewPresets,
+  saveViewPreset,
+  viewFromSearchParams,
+  viewToSearchParams,
+  ViewPreset,
+} from '@/lib/views';
+import {
+  loadAddresses,
+  loadImportBatches,
+  patchStoredAddresses,
+  removeImportBatch,
+  replaceStoredData,
+  saveAddresses,
+  saveImportBatch,
+  updateStoredAddress,
+} from '@/lib/storage';
 import Controls from './Controls';
 import RegionList from './RegionList';
 import EmptyState from './EmptyState';
+import FacetPanel from './FacetPanel';
+import ImportWizard from './ImportWizard';
+import PasteImport from './PasteImport';
+import DropZone from './DropZone';
+import ImportQueue from './ImportQueue';
+import DuplicateReview from './DuplicateReview';
+import ImportReport from './ImportReport';
+import ImportHistory from './ImportHistory';
+import ExportDialog from './ExportDialog';
 import { BarChart3, Check, X, Target, MapPin } from 'lucide-react';
 
+// Pause after the last view change (typing) before the URL is rewritten
+const URL_SYNC_DELAY_MS = 300;
+
 /** ----------------------------------------------------------------
- *  Helpers (safe string ops, comparisons, optimized PLZ detection)
+ *  Helpers (optimized PLZ detection)
  *  ---------------------------------------------------------------- */
-const safe = (s?: string) => (s ?? '').toLowerCase();
-const cmpStr = (a?: string, b?: string) => (a ?? '').localeCompare(b ?? '', 'de');
-const cmpNumDesc = (a?: number, b?: number) => (b ?? 0) - (a ?? 0);
 
 // Austrian postal code ranges for validation
 const AUSTRIAN_PLZ_RANGES = {
@@ -77,9 +141,9 @@ function detectPLZ(text: string): string {
 }
 
 // Optimized PLZ indexing for large datasets
-function buildPlzIndex(addresses: Address[]): Map<number | string, string> {
+function buildPlzIndex(addresses: Address[]): Map<string, string> {
   console.time('PLZ Index Build');
-  const map = new Map<number | string, string>();
+  const map = new Map<string, string>();
   
   // Process in chunks to avoid blocking the UI with large datasets like yours
   const CHUNK_SIZE = 2000;
@@ -89,7 +153,7 @@ function buildPlzIndex(addresses: Address[]): Map<number | string, string> {
     const chunk = addresses.slice(i, i + CHUNK_SIZE);
     
     for (const address of chunk) {
-      const key = (address as any).id as number | string;
+      const key = address.id;
       if (!map.has(key)) {
         map.set(key, detectPLZ(address.address));
       }
@@ -116,9 +180,21 @@ export function clearPLZCache(): void {
   plzValidationCache.clear();
 }
 
+type ImportCounts = {
+  totalProcessed: number;
+  imported: number;
+  duplicatesSkipped: number;
+  files: number;
+  mode?: ImportMode;
+  updated?: number; // upsert mode only
+  unchanged?: number;
+  conflicts?: number;
+  fileResults?: FileImportResult[]; // per-file breakdown
+};
+
 type ImportStats =
-  | { totalProcessed: number; imported: number; duplicatesSkipped: number; files: number; message?: string; error?: undefined }
-  | { totalProcessed: number; imported: number; duplicatesSkipped: number; files: number; error: string; message?: undefined };
+  | (ImportCounts & { message?: string; error?: undefined })
+  | (ImportCounts & { error: string; message?: undefined });
 
 // Enhanced KPI component with variants and proper accessibility
 const KPI = memo(({ 
@@ -167,129 +243,220 @@ const Stat = memo(({ label, value, highlight }: { label: string; value: number;
   );
 });
 
+// Per-file breakdown of an import, so a failed file is not hidden by the totals
+const FileResultTable = memo(({ results }: { results: FileImportResult[] }) => (
+  <div className="mt-4 overflow-x-auto bg-white/60 rounded-2xl">
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="px-3 py-2 font-medium">Datei</th>
+          <th className="px-3 py-2 font-medium">Status</th>
+          <th className="px-3 py-2 font-medium text-right">Verarbeitet</th>
+          <th className="px-3 py-2 font-medium text-right">Importiert</th>
+          <th className="px-3 py-2 font-medium text-right">Duplikate</th>
+          <th className="px-3 py-2 font-medium text-right">Fehlerhaft</th>
+        </tr>
+      </thead>
+      <tbody>
+        {results.map((r, i) => (
+          <tr key={`${i}-${r.fileName}`} className="border-t border-gray-100 align-top">
+            <td className="px-3 py-2 font-medium break-all">{r.fileName}</td>
+            <td className="px-3 py-2">
+              {r.status === 'failed' ? (
+                <span className="text-red-700">
+                  <span className="font-bold">Fehlgeschlagen</span>
+                  {r.error && <span className="block text-xs">{r.error}</span>}
+                </span>
+              ) : (
+                <span className="font-bold text-emerald-700">Fertig</span>
+              )}
+            </td>
+            <td className="px-3 py-2 text-right tabular-nums">{r.processed.toLocaleString('de-DE')}</td>
+            <td className="px-3 py-2 text-right tabular-nums">
+              {r.imported.toLocaleString('de-DE')}
+              {r.updated > 0 && <span className="block text-xs text-gray-500">{r.updated.toLocaleString('de-DE')} aktualisiert</span>}
+            </td>
+            <td className="px-3 py-2 text-right tabular-nums">{r.duplicatesSkipped.toLocaleString('de-DE')}</td>
+            <td className={`px-3 py-2 text-right tabular-nums ${r.invalid + r.conflicts > 0 ? 'text-red-700 font-bold' : ''}`}>
+              {(r.invalid + r.conflicts).toLocaleString('de-DE')}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+));
+
 /** ----------------------------------------------------------------
  *  Fixed Filtering & Sorting (proper precedence and PLZ-aware)
  *  ---------------------------------------------------------------- */
-const createAddressFilter = (searchTerm: string, filterBy: string, plzIndex: Map<number | string, string>) => {
-  const q = (searchTerm || '').trim().toLowerCase();
-  const qPlz = q.replace(/\D/g, ''); // numeric-only for PLZ intent
+// Group by PLZ or by region; keys come back sorted (reversed when the list is
+// sorted descending by the grouping field), by best search score first while a
+// ranked search is active
+function groupAddresses(
+  list: Address[],
+  groupBy: GroupOption,
+  plzIndex: Map<string, string>,
+  descending: boolean,
+  scores?: Map<string, number>
+): Record<string, Address[]> {
+  const grouped: Record<string, Address[]> = {};
 
-  return (address: Address) => {
-    // First apply category filter
-    let categoryMatch = true;
-    
-    switch (filterBy) {
-      case 'kein_vertrag':
-        categoryMatch = (address.contractStatus ?? 0) === 0;
-        break;
-      case 'mit_vertrag':
-        categoryMatch = (address.contractStatus ?? 0) > 0;
-        break;
-      case 'has_notes':
-        categoryMatch = !!(address.notes?.trim());
-        break;
-      case 'all':
-      default:
-        categoryMatch = true;
-        break;
+  if (groupBy === 'PLZ') {
+    for (const a of list) {
+      const plz = plzIndex.get(a.id) || 'Unbekannt';
+      const key = `PLZ ${plz}`;
+      (grouped[key] ||= []).push(a);
     }
-    
-    // If category doesn't match, exclude immediately
-    if (!categoryMatch) return false;
-
-    // Then apply search filter if present
-    if (q) {
-      const id = (address as any).id as number | string;
-      const plz = plzIndex.get(id) || 'Unbekannt';
-      
-      const matchesSearch = 
-        safe(address.address).includes(q) ||
-        safe(address.region).includes(q) ||
-        safe(address.notes).includes(q) ||
-        safe(address.buildingCompany).includes(q) ||
-        (qPlz && plz.includes(qPlz));
-        
-      return matchesSearch;
+  } else {
+    for (const a of list) {
+      const key = a.region || 'Unbekannt';
+      (grouped[key] ||= []).push(a);
     }
-
-    return true;
-  };
-};
-
-const createAddressSorter = (sortBy: string, plzIndex: Map<number | string, string>) => {
-  switch (sortBy) {
-    case 'PLZ':
-      return (a: Address, b: Address) => {
-        const pa = plzIndex.get((a as any).id as number | string) || 'Unbekannt';
-        const pb = plzIndex.get((b as any).id as number | string) || 'Unbekannt';
-        return cmpStr(pa, pb) || cmpStr(a.address, b.address);
-      };
-    case 'Region':
-      return (a: Address, b: Address) => cmpStr(a.region, b.region) || cmpStr(a.address, b.address);
-    case 'Adresse':
-      return (a: Address, b: Address) => cmpStr(a.address, b.address);
-    case 'Anzahl der Homes':
-      return (a: Address, b: Address) => cmpNumDesc(a.homes, b.homes);
-    case 'Preis Standardprodukt (€)':
-      return (a: Address, b: Address) => cmpNumDesc(a.price, b.price);
-    default:
-      return () => 0;
   }
-};
+
+  // Return an object with keys in sorted order to keep UI deterministic
+  const best = (key: string) =>
+    scores?.size ? grouped[key].reduce((max, a) => Math.max(max, scores.get(a.id) ?? 0), 0) : 0;
+  const bestByKey = new Map(Object.keys(grouped).map(k => [k, best(k)]));
+  const sortedKeys = Object.keys(grouped).sort(
+    (a, b) => bestByKey.get(b)! - bestByKey.get(a)! || (descending ? -1 : 1) * a.localeCompare(b, 'de')
+  );
+  const out: Record<string, Address[]> = {};
+  for (const k of sortedKeys) out[k] = grouped[k];
+  return out;
+}
 
 export default function AddressManager() {
   const [addresses, setAddresses] = useState<Address[]>([]);
   const [importStats, setImportStats] = useState<ImportStats | null>(null);
   const [isImporting, setIsImporting] = useState(false);
-  const [importProgress, setImportProgress] = useState(0);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterBy, setFilterBy] = useState<'all' | 'kein_vertrag' | 'mit_vertrag' | 'has_notes'>('all');
-  const [sortBy, setSortBy] = useState<'PLZ' | 'Region' | 'Adresse' | 'Anzahl der Homes' | 'Preis Standardprodukt (€)'>('PLZ');
-  const [expandedRegions, setExpandedRegions] = useState<Set<string>>(new Set());
+  const [importProgress, setImportProgress] = useState<ImportProgress[]>([]);
+  // The view starts from the URL once; afterwards the state writes the URL
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [initialView] = useState(() => viewFromSearchParams(searchParams));
+  const [searchTerm, setSearchTerm] = useState(initialView.searchTerm);
+  const [facetFilters, setFacetFilters] = useState<FacetFilters>(initialView.facets);
+  const [groupBy, setGroupBy] = useState<GroupOption>(initialView.groupBy);
+  const [sortKeys, setSortKeys] = useState<SortKey[]>(initialView.sortKeys);
+  const [expandedRegions, setExpandedRegions] = useState<Set<string>>(() => new Set(initialView.expandedGroups));
+  const [viewPresets, setViewPresets] = useState<ViewPreset[]>([]);
   const [isNative, setIsNative] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<DuplicateCandidate[]>([]);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  // unreadable = files that failed before the wizard, reported with the import result
+  const [pendingImport, setPendingImport] = useState<{
+    files: File[];
+    workbooks: SheetInfo[][];
+    unreadable: FileImportResult[];
+  } | null>(null);
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  const [isPreparingImport, setIsPreparingImport] = useState(false);
 
   useEffect(() => {
     setIsNative(isNativeCapacitor());
+    setViewPresets(loadViewPresets());
+  }, []);
+
+  // Restore the persisted portfolio once on mount
+  useEffect(() => {
+    let cancelled = false;
+    loadAddresses()
+      .then(stored => {
+        if (!cancelled && stored.length > 0) {
+          // Rows imported before the restore finished stay on top of the stored ones
+          setAddresses(prev => (prev.length ? [...stored, ...prev] : stored));
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setStorageError(error.message);
+      });
+    loadImportBatches()
+      .then(batches => {
+        if (!cancelled) setImportBatches(prev => [...prev, ...batches]);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setStorageError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleStorageError = useCallback((error: unknown) => {
+    setStorageError(error instanceof Error ? error.message : String(error));
   }, []);
 
   // Optimized PLZ index for the current list
   const plzIndex = useMemo(() => buildPlzIndex(addresses), [addresses]);
 
-  // Memoized filter and sort using the PLZ index
-  const filterFn = useMemo(() => createAddressFilter(searchTerm, filterBy, plzIndex), [searchTerm, filterBy, plzIndex]);
-  const sortFn = useMemo(() => createAddressSorter(sortBy, plzIndex), [sortBy, plzIndex]);
+  // Token index over every text field; sync only re-indexes rows whose object changed (edits, imports)
+  const [searchIndex] = useState(createSearchIndex);
+
+  // The query is compiled once per keystroke, not per row. Words without field
+  // are looked up in the index, their scores can rank the result (see relevanceScores).
+  const searchQuery = useMemo(() => {
+    searchIndex.sync(addresses);
+    const scores = new Map<string, number>();
+    const freeText = (text: string, quoted?: boolean): QueryMatcher => {
+      const hits = searchIndex.search(text, quoted);
+      if (!hits) return () => true;
+      for (const [id, score] of hits) scores.set(id, (scores.get(id) ?? 0) + score);
+      return address => hits.has(address.id);
+    };
+    return { ...parseQuery(searchTerm, freeText), scores };
+  }, [searchTerm, addresses, searchIndex]);
+
+  const searchedAddresses = useMemo(() => {
+    const { matches } = searchQuery;
+    if (!matches) return addresses;
+    return addresses.filter(a => matches(a, plzIndex.get(a.id) || 'Unbekannt'));
+  }, [addresses, searchQuery, plzIndex]);
+
+  // Facets narrow the search result; their counts are taken within it
+  const facetResult = useMemo(
+    () => applyFacets(searchedAddresses, facetFilters, a => plzIndex.get(a.id) || 'Unbekannt'),
+    [searchedAddresses, facetFilters, plzIndex]
+  );
+
+  // Search hits rank by relevance until the user picks a sort order of their own
+  const relevanceScores = useMemo(() => {
+    const untouched = sortKeys.length === 0 || sameSortKeys(sortKeys, DEFAULT_VIEW_STATE.sortKeys);
+    return untouched && searchQuery.scores.size > 0 ? searchQuery.scores : null;
+  }, [sortKeys, searchQuery]);
+
+  const sortFn = useMemo(() => {
+    // Rows without a detected PLZ sort last
+    const bySelection = createAddressComparator(sortKeys, a => plzIndex.get(a.id) ?? '');
+    const scores = relevanceScores;
+    if (!scores) return bySelection;
+    // Relevance first, the sort order breaks ties
+    return (a: Address, b: Address) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || bySelection(a, b);
+  }, [sortKeys, plzIndex, relevanceScores]);
+
+  // Sorting by the grouping field descending also reverses the group order
+  const groupsDescending =
+    sortKeys[0]?.field === (groupBy === 'PLZ' ? 'plz' : 'region') && sortKeys[0].direction === 'desc';
 
   // Enhanced grouping with stable key order for large datasets
   const groupedAddresses = useMemo(() => {
     console.time('Address Grouping');
     
-    const filtered = addresses.filter(filterFn);
+    const filtered = facetResult.matches.slice();
     filtered.sort(sortFn);
-
-    const grouped: Record<string, Address[]> = {};
-
-    if (sortBy === 'PLZ') {
-      for (const a of filtered) {
-        const id = (a as any).id as number | string;
-        const plz = plzIndex.get(id) || 'Unbekannt';
-        const key = `PLZ ${plz}`;
-        (grouped[key] ||= []).push(a);
-      }
-    } else {
-      for (const a of filtered) {
-        const key = a.region || 'Unbekannt';
-        (grouped[key] ||= []).push(a);
-      }
-    }
-
-    // Return an object with keys in sorted order to keep UI deterministic
-    const sortedKeys = Object.keys(grouped).sort((a, b) => a.localeCompare(b, 'de'));
-    const out: Record<string, Address[]> = {};
-    for (const k of sortedKeys) out[k] = grouped[k];
+    const out = groupAddresses(filtered, groupBy, plzIndex, groupsDescending, relevanceScores ?? undefined);
     
     console.timeEnd('Address Grouping');
     return out;
-  }, [addresses, filterFn, sortFn, sortBy, plzIndex]);
+  }, [facetResult, sortFn, groupBy, plzIndex, groupsDescending, relevanceScores]);
 
   // Enhanced statistics with ISP-specific metrics
   const statistics = useMemo(() => {
@@ -339,7 +506,7 @@ export default function AddressManager() {
     // Calculate derived stats
     const plzSet = new Set<string>();
     for (const address of addresses) {
-      plzSet.add(plzIndex.get((address as any).id as number | string) || 'Unbekannt');
+      plzSet.add(plzIndex.get(address.id) || 'Unbekannt');
     }
     
     const potenzialPct = addresses.length ? Math.round((stats.keinVertrag / addresses.length) * 100) : 0;
@@ -367,36 +534,73 @@ export default function AddressManager() {
     });
   }, []);
 
-  // Update a single address by id (keeps current id type)
-  const updateAddress = useCallback((id: number, patch: Partial<Address>) => {
-    setAddresses(prev => prev.map(a => ((a as any).id === id ? { ...a, ...patch } : a)));
-  }, []);
+  // Update a single address by id and persist only that row.
+  // editedAt marks the row as manually changed so a batch rollback keeps it,
+  // applyEdit keeps the previous values for the delta export.
+  const updateAddress = useCallback((id: string, patch: Partial<Address>) => {
+    const edited = { ...patch, editedAt: Date.now() };
+    setAddresses(prev => prev.map(a => (a.id === id ? applyEdit(a, edited) : a)));
+    updateStoredAddress(id, current => applyEdit(current, edited)).catch(handleStorageError);
+  }, [handleStorageError]);
+
+  // Keeps the running import cancellable from the progress panel
+  const importAbortRef = useRef<AbortController | null>(null);
 
-  // Enhanced progress handling with better UX for large files
-  const onExcelChosen = useCallback(
-    async (files: File[]) => {
+  // Real row-based progress reported by the import worker, one entry per file
+  const startImport = useCallback(
+    async (files: File[], plans: FileImportPlan[], mode: ImportMode, unreadable: FileImportResult[] = []) => {
+      const controller = new AbortController();
+      importAbortRef.current = controller;
       setIsImporting(true);
-      setImportProgress(0);
-      let timer: ReturnType<typeof setInterval> | null = null;
+      setImportProgress(files.map((file, fileIndex) => ({ fileIndex, fileName: file.name, processedRows: 0, totalRows: 0, status: 'queued' })));
+      setImportIssues([]);
 
       try {
-        // Slower progress for large files to show actual processing time
-        const progressIncrement = files.some(f => f.size > 10 * 1024 * 1024) ? 3 : 7; // 3% for large files, 7% for normal
-        timer = setInterval(() => setImportProgress(p => Math.min(p + progressIncrement, 93)), 200);
-
-        const { newAddresses, totalProcessed, duplicatesSkipped } = await importExcelFiles(files, addresses);
+        const { newAddresses, updates, totalProcessed, duplicatesSkipped, unchanged, conflicts, reviewQueue: likelyDuplicates, issues, files: results, batch } = await runImport(files, addresses, plans, {
+          mode,
+          signal: controller.signal,
+          onProgress: progress =>
+            setImportProgress(prev => prev.map(p => (p.fileIndex === progress.fileIndex ? progress : p))),
+        });
 
-        setAddresses(prev => [...prev, ...newAddresses]);
+        // Upserts only bring the changed provider fields; edits made while the import ran stay
+        const patchesById = new Map(updates.map(u => [u.id, u.patch]));
+        setAddresses(prev => [
+          ...(patchesById.size
+            ? prev.map(a => {
+                const patch = patchesById.get(a.id);
+                return patch ? { ...a, ...patch } : a;
+              })
+            : prev),
+          ...newAddresses,
+        ]);
+        saveAddresses(newAddresses).catch(handleStorageError);
+        setReviewQueue(prev => [...prev, ...likelyDuplicates]);
+        setImportIssues(issues);
+        setImportBatches(prev => [batch, ...prev]);
+        saveImportBatch(batch).catch(handleStorageError);
+        patchStoredAddresses(updates).catch(handleStorageError);
+        const fileResults = [...unreadable, ...results];
+        const failedFiles = fileResults.filter(r => r.status === 'failed').length;
+        const summary =
+          mode === 'upsert'
+            ? `Abgleich abgeschlossen: ${newAddresses.length.toLocaleString()} neu, ${updates.length.toLocaleString()} aktualisiert`
+            : `Erfolgreich importiert: ${newAddresses.length.toLocaleString()} Adressen!`;
         setImportStats({
           totalProcessed,
           imported: newAddresses.length,
           duplicatesSkipped,
-          files: files.length,
-          message: `Erfolgreich importiert: ${newAddresses.length.toLocaleString()} Adressen!`,
+          files: fileResults.length,
+          mode,
+          updated: updates.length,
+          unchanged,
+          conflicts,
+          fileResults,
+          message: failedFiles
+            ? `${summary} ${failedFiles} von ${fileResults.length} Dateien fehlgeschlagen.`
+            : summary,
         });
 
-        setImportProgress(100);
-        
         // Clear PLZ cache if it gets too large
         if (plzValidationCache.size > 10000) {
           clearPLZCache();
@@ -408,58 +612,536 @@ export default function AddressManager() {
           imported: 0,
           duplicatesSkipped: 0,
           files: files.length,
-          error: 'Import fehlgeschlagen: ' + (error?.message || String(error)),
+          error: isAbortError(error)
+            ? 'Import abgebrochen – es wurden keine Adressen übernommen.'
+            : 'Import fehlgeschlagen: ' + (error?.message || String(error)),
         });
       } finally {
-        if (timer) clearInterval(timer);
+        importAbortRef.current = null;
         setTimeout(() => {
           setIsImporting(false);
-          setImportProgress(0);
+          setImportProgress([]);
         }, 500); // Slightly longer delay to show completion
       }
     },
-    [addresses]
+    [addresses, handleStorageError]
+  );
+
+  // Apply the user's choice for one or more likely duplicates from the review queue
+  const resolveDuplicates = useCallback(
+    (items: DuplicateCandidate[], decision: DuplicateDecision) => {
+      const resolvedIds = new Set(items.map(c => c.incoming.id));
+      setReviewQueue(prev => prev.filter(c => !resolvedIds.has(c.incoming.id)));
+      if (decision === 'keep-existing') return;
+
+      const byId = new Map(addresses.map(a => [a.id, a]));
+      const inserts: Address[] = [];
+      const replacements = new Map<string, Address>();
+      // A later import may have taken the ID reserved for a queued row meanwhile
+      const ids = createIdAllocator(byId.keys());
+
+      for (const { incoming, existing } of items) {
+        const current = replacements.get(existing.id) ?? byId.get(existing.id);
+        // The matched row is gone (e.g. removed meanwhile) - nothing left to compare against
+        if (decision === 'keep-both' || !current) {
+          const id = ids.allocate(ids.has(incoming.id) ? addressBaseId(incoming) : incoming.id);
+          inserts.push(id === incoming.id ? incoming : { ...incoming, id });
+        } else if (decision === 'keep-incoming') {
+          replacements.set(current.id, replaceAddressData(current, incoming));
+        } else {
+          replacements.set(current.id, mergeAddresses(current, incoming));
+        }
+      }
+
+      setAddresses(prev => [...(replacements.size ? prev.map(a => replacements.get(a.id) ?? a) : prev), ...inserts]);
+      saveAddresses([...replacements.values(), ...inserts]).catch(handleStorageError);
+    },
+    [addresses, handleStorageError]
+  );
+
+  const resolveDuplicate = useCallback(
+    (candidate: DuplicateCandidate, decision: DuplicateDecision) => resolveDuplicates([candidate], decision),
+    [resolveDuplicates]
+  );
+
+  const resolveAllDuplicates = useCallback(
+    (decision: DuplicateDecision) => resolveDuplicates(reviewQueue, decision),
+    [resolveDuplicates, reviewQueue]
+  );
+
+  const closeImportReport = useCallback(() => setImportIssues([]), []);
+
+  // Remove the rows a batch inserted; manually edited rows and upsert changes stay
+  const rollbackBatch = useCallback(
+    (batch: ImportBatch) => {
+      const removeIds = addresses.filter(a => a.batchId === batch.id && !a.editedAt).map(a => a.id);
+      const removeSet = new Set(removeIds);
+      setAddresses(prev => prev.filter(a => !removeSet.has(a.id)));
+      setReviewQueue(prev => prev.filter(c => c.incoming.batchId !== batch.id));
+      setImportBatches(prev => prev.filter(b => b.id !== batch.id));
+      removeImportBatch(batch.id, removeIds).catch(handleStorageError);
+      console.log(`Rolled back import ${batch.id}: ${removeIds.length.toLocaleString()} addresses removed`);
+    },
+    [addresses, handleStorageError]
   );
 
-  const exportCSV = useCallback(() => {
-    saveDataToCSVNativeOrWeb(addresses, () => exportCSVWeb(addresses));
-  }, [addresses]);
+  const cancelRunningImport = useCallback(() => {
+    importAbortRef.current?.abort();
+  }, []);
+
+  // Overall percentage across all files of the running import
+  const importPercent = useMemo(() => {
+    const total = importProgress.reduce((sum, p) => sum + p.totalRows, 0);
+    const processed = importProgress.reduce((sum, p) => sum + p.processedRows, 0);
+    return total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 0;
+  }, [importProgress]);
+
+  // Picked and dropped files wait here until the running import and wizard are finished
+  const enqueueFiles = useCallback((files: File[]) => {
+    setQueuedFiles(prev => [...prev, ...files]);
+  }, []);
+
+  const removeQueuedFile = useCallback((index: number) => {
+    setQueuedFiles(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  // Read sheets and header rows first so sheets and column mapping can be confirmed in the wizard.
+  // Each file is read on its own; unsupported or broken files are reported, the rest go on.
+  const prepareImport = useCallback(async (files: File[]) => {
+    setIsPreparingImport(true);
+    try {
+      const settled = await Promise.allSettled(
+        files.map(file =>
+          isImportableFile(file) ? readWorkbookInfo(file) : Promise.reject(new Error('Dateityp wird nicht unterstützt'))
+        )
+      );
+
+      const readable: File[] = [];
+      const workbooks: SheetInfo[][] = [];
+      const unreadable: FileImportResult[] = [];
+      settled.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') {
+          readable.push(files[i]);
+          workbooks.push(outcome.value);
+        } else {
+          console.warn(`Could not read ${files[i].name}:`, outcome.reason);
+          const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          unreadable.push(failedFileResult(files[i].name, reason));
+        }
+      });
+
+      if (readable.length > 0) {
+        setPendingImport({ files: readable, workbooks, unreadable });
+      } else {
+        setImportStats({
+          totalProcessed: 0,
+          imported: 0,
+          duplicatesSkipped: 0,
+          files: files.length,
+          fileResults: unreadable,
+          error: files.length === 1 ? 'Die Datei konnte nicht gelesen werden.' : 'Keine der Dateien konnte gelesen werden.',
+        });
+      }
+    } finally {
+      setIsPreparingImport(false);
+    }
+  }, []);
+
+  // Hand the next batch of queued files to the wizard once nothing else is in progress
+  useEffect(() => {
+    if (isImporting || isPreparingImport || pendingImport || queuedFiles.length === 0) return;
+    const next = queuedFiles;
+    setQueuedFiles([]);
+    prepareImport(next);
+  }, [isImporting, isPreparingImport, pendingImport, queuedFiles, prepareImport]);
+
+  const confirmImport = useCallback(
+    (plans: FileImportPlan[], mode: ImportMode) => {
+      if (!pendingImport) return;
+      const { files, unreadable } = pendingImport;
+      setPendingImport(null);
+      startImport(files, plans, mode, unreadable);
+    },
+    [pendingImport, startImport]
+  );
+
+  const cancelImport = useCallback(() => setPendingImport(null), []);
+
+  // Pasted rows arrive as one TSV file and take the regular import path
+  const openPaste = useCallback(() => setIsPasteOpen(true), []);
+  const closePaste = useCallback(() => setIsPasteOpen(false), []);
+  const confirmPaste = useCallback(
+    (file: File, plan: FileImportPlan) => {
+      setIsPasteOpen(false);
+      startImport([file], [plan], 'skip');
+    },
+    [startImport]
+  );
+
+  const openExport = useCallback(() => setIsExportOpen(true), []);
+  const closeExport = useCallback(() => setIsExportOpen(false), []);
+
+  const exportGroups = useMemo(
+    () => Object.entries(groupedAddresses).map(([name, list]) => ({ name, count: list.length })),
+    [groupedAddresses]
+  );
+  const filteredCount = useMemo(() => exportGroups.reduce((sum, g) => sum + g.count, 0), [exportGroups]);
+  const changedCount = useMemo(() => addresses.filter(isChanged).length, [addresses]);
+
+  // After a delta export the exported state becomes the new baseline
+  const resetChangeBaseline = useCallback(
+    (exported: Address[]) => {
+      // Rows edited while the file was written keep their changes for the next delta export
+      const editedAtById = new Map(exported.map(a => [a.id, a.editedAt]));
+      const unedited = (a: Address) => editedAtById.has(a.id) && editedAtById.get(a.id) === a.editedAt;
+      const reset = (a: Address) => (unedited(a) ? clearChanges(a) : a);
+      setAddresses(prev => prev.map(reset));
+      patchStoredAddresses(exported.map(a => ({ id: a.id, patch: reset }))).catch(handleStorageError);
+    },
+    [handleStorageError]
+  );
+
+  // Scope decides the rows, grouping always follows the current view mode
+  const runExport = useCallback((options: ExportOptions) => {
+    setIsExportOpen(false);
+    setExportError(null);
+
+    let groups: Record<string, Address[]>;
+    if (options.scope === 'all') {
+      groups = groupAddresses([...addresses].sort(sortFn), groupBy, plzIndex, groupsDescending);
+    } else if (options.scope === 'changed') {
+      groups = groupAddresses(addresses.filter(isChanged).sort(sortFn), groupBy, plzIndex, groupsDescending);
+    } else if (options.scope === 'filtered') {
+      groups = groupedAddresses;
+    } else {
+      groups = {};
+      for (const name of options.groups) if (groupedAddresses[name]) groups[name] = groupedAddresses[name];
+    }
+    const rows = Object.values(groups).flat();
+    if (rows.length === 0) {
+      setExportError(
+        options.scope === 'changed'
+          ? 'Keine geänderten Adressen – es wurde nichts exportiert.'
+          : 'Die gewählte Auswahl enthält keine Adressen – es wurde nichts exportiert.'
+      );
+      return;
+    }
+
+    const fileName = renderExportFileName(options.fileNameTemplate, {
+      format: options.format,
+      scope: options.scope,
+      count: rows.length,
+    });
+    const saveOptions = { directory: options.nativeDirectory, shareText: `${rows.length.toLocaleString('de-DE')} Adressen` };
+    const reportFailure = (error: unknown) => {
+      console.error('Export failed:', error);
+      setExportError(error instanceof Error ? error.message : String(error));
+    };
+
+    // Calendar export only reads the date fields, columns do not apply
+    if (options.format === 'ics') {
+      try {
+        const { blob, unparsedDates } = buildICSBlob(groups);
+        saveFileNativeOrWeb(blob, fileName, saveOptions)
+          .then(() => {
+            if (unparsedDates.length > 0) {
+              console.warn('Calendar export skipped unreadable dates:', unparsedDates.slice(0, 20));
+              setExportError(
+                `${unparsedDates.length} Datumswerte konnten nicht gelesen werden und fehlen im Kalender, z. B. „${unparsedDates[0]}“.`
+              );
+            }
+          })
+          .catch(reportFailure);
+      } catch (error) {
+        reportFailure(error);
+      }
+      return;
+    }
+
+    // Delta exports add the changed-fields and previous-value columns
+    const isDelta = options.scope === 'changed';
+    const columns = isDelta ? deltaColumns(rows, options.columns) : options.columns;
+    const toRow = isDelta ? toDeltaRow : undefined;
+
+    const summary: SummaryRow[] = [
+      { label: isDelta ? 'Geänderte Adressen' : 'Exportierte Adressen', value: rows.length },
+      { label: 'Adressen gesamt', value: statistics.totalAddresses },
+      { label: 'Homes gesamt', value: statistics.totalHomes },
+      { label: 'Kein Vertrag', value: statistics.keinVertrag },
+      { label: 'Mit Vertrag', value: statistics.mitVertrag },
+      { label: 'Verkaufspotenzial (%)', value: statistics.potenzialPct },
+      { label: 'PLZ-Gebiete', value: statistics.uniquePLZ },
+      { label: 'In Betrieb', value: statistics.inOperation },
+      { label: 'Operationsrate (%)', value: statistics.operationalPct },
+      { label: 'Bau fertiggestellt', value: statistics.completedBuilds },
+      { label: 'Mit Notizen', value: statistics.withNotes },
+      { label: 'Gesamtwert (€)', value: statistics.totalValue },
+      { label: 'Ø Preis/Home (€)', value: statistics.avgPricePerHome },
+    ];
+    const file =
+      options.format === 'csv'
+        ? buildCSVBlob(rows, columns, toRow)
+        : buildXLSXBlob(groups, summary, columns, toRow);
+    file
+      .then(blob => saveFileNativeOrWeb(blob, fileName, saveOptions))
+      .then(() => {
+        if (isDelta) resetChangeBaseline(rows);
+      })
+      .catch(reportFailure);
+  }, [addresses, groupedAddresses, sortFn, groupBy, plzIndex, groupsDescending, statistics, resetChangeBaseline]);
+
+  const currentView = useMemo<ViewState>(
+    () => ({ searchTerm, facets: facetFilters, groupBy, sortKeys, expandedGroups: [...expandedRegions] }),
+    [searchTerm, facetFilters, groupBy, sortKeys, expandedRegions]
+  );
+
+  const applyView = useCallback((view: ViewState) => {
+    setSearchTerm(view.searchTerm);
+    setFacetFilters(view.facets);
+    setGroupBy(view.groupBy);
+    setSortKeys(view.sortKeys);
+    setExpandedRegions(new Set(view.expandedGroups));
+  }, []);
+
+  // Mirror the view into the URL so it can be bookmarked and shared; typing is debounced
+  useEffect(() => {
+    const query = viewToSearchParams(currentView).toString();
+    if (query === searchParams.toString()) return;
+    const timer = setTimeout(() => {
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    }, URL_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentView, searchParams, pathname, router]);
+
+  // Table header click: sort by the column, shift-click adds it as a further key
+  const sortByColumn = useCallback((field: SortField, additive: boolean) => {
+    setSortKeys(prev => toggleSortKey(prev, field, additive));
+  }, []);
+
+  const applyPreset = useCallback(
+    (name: string) => {
+      const preset = viewPresets.find(p => p.name === name);
+      if (preset) applyView(preset.view);
+    },
+    [viewPresets, applyView]
+  );
+
+  // Throws with a German message when the preset cannot be stored; Controls shows it
+  const savePreset = useCallback(
+    (name: string) => {
+      saveViewPreset(name, currentView);
+      setViewPresets(loadViewPresets());
+    },
+    [currentView]
+  );
+
+  const deletePreset = useCallback((name: string) => {
+    deleteViewPreset(name);
+    setViewPresets(loadViewPresets());
+  }, []);
+
+  // Project files carry the whole working state: addresses, import history and view
+  const saveProject = useCallback(
+    (compress: boolean) => {
+      setProjectError(null);
+      saveProjectFile(
+        {
+          addresses,
+          batches: importBatches,
+          view: currentView,
+        },
+        compress
+      ).catch((error: Error) => setProjectError('Projekt konnte nicht gespeichert werden: ' + error.message));
+    },
+    [addresses, importBatches, currentView]
+  );
+
+  const openProject = useCallback(
+    async (file: File) => {
+      if (addresses.length > 0 && !window.confirm('Die aktuellen Adressen werden durch das Projekt ersetzt. Fortfahren?')) return;
+      setProjectError(null);
+      try {
+        const project = await readProjectFile(file);
+        setAddresses(project.addresses);
+        setImportBatches(project.batches);
+        applyView(project.view);
+        setReviewQueue([]);
+        setImportIssues([]);
+        setImportStats(null);
+        replaceStoredData(project.addresses, project.batches).catch(handleStorageError);
+        console.log(`Opened project ${file.name} with ${project.addresses.length.toLocaleString()} addresses`);
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [addresses.length, handleStorageError, applyView]
+  );
+
+  const printGroupWalkList = useCallback((group: string, rows: Address[]) => {
+    // Rows without a detected PLZ are indexed as 'Unbekannt', which does not belong in the header
+    const plzs = rows
+      .map(a => plzIndex.get(a.id))
+      .filter((plz): plz is string => Boolean(plz) && plz !== 'Unbekannt');
+    setExportError(null);
+    try {
+      printWalkList(buildWalkList(group, rows, plzs));
+    } catch (error) {
+      console.error('Walk list printing failed:', error);
+      // Blocked pop-ups are the usual cause; shown in the export banner
+      setExportError('Laufliste konnte nicht gedruckt werden: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }, [plzIndex]);
 
   const hasAddresses = addresses.length > 0;
   const hasGroupedAddresses = Object.keys(groupedAddresses).length > 0;
 
   return (
     <div className="relative">
+      <DropZone onFilesDropped={enqueueFiles} />
+
       <Controls
         isImporting={isImporting}
-        onExcelChosen={onExcelChosen}
+        onExcelChosen={enqueueFiles}
+        onPasteClick={openPaste}
         allowExport={hasAddresses}
-        onExport={exportCSV}
+        onExport={openExport}
+        onSaveProject={saveProject}
+        onOpenProject={openProject}
         isNative={isNative}
         searchTerm={searchTerm}
         setSearchTerm={setSearchTerm}
-        filterBy={filterBy}
-        setFilterBy={setFilterBy}
-        sortBy={sortBy}
-        setSortBy={setSortBy}
+        searchErrors={searchQuery.errors}
+        activeFilterCount={activeFilterCount(facetFilters)}
+        viewPresets={viewPresets}
+        onApplyPreset={applyPreset}
+        onSavePreset={savePreset}
+        onDeletePreset={deletePreset}
+        groupBy={groupBy}
+        setGroupBy={setGroupBy}
+        sortKeys={sortKeys}
+        setSortKeys={setSortKeys}
+        rankedByRelevance={relevanceScores !== null}
       />
 
+      {isExportOpen && (
+        <ExportDialog
+          groups={exportGroups}
+          totalCount={addresses.length}
+          filteredCount={filteredCount}
+          changedCount={changedCount}
+          isNative={isNative}
+          preselectedGroups={[...expandedRegions]}
+          onConfirm={runExport}
+          onCancel={closeExport}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportWizard
+          files={pendingImport.files}
+          workbooks={pendingImport.workbooks}
+          onConfirm={confirmImport}
+          onCancel={cancelImport}
+        />
+      )}
+
+      {isPasteOpen && <PasteImport onConfirm={confirmPaste} onCancel={closePaste} />}
+
+      {/* Local storage problems (quota, private mode, blocked IndexedDB) */}
+      {storageError && (
+        <div className="my-8 rounded-3xl p-6 border bg-amber-50/80 border-amber-200">
+          <div className="flex items-center justify-between gap-3 font-bold text-lg text-amber-800">
+            <span>Lokale Speicherung fehlgeschlagen</span>
+            <button
+              onClick={() => setStorageError(null)}
+              className="p-2 rounded-xl hover:bg-amber-100 transition-colors duration-200"
+              type="button"
+              aria-label="Hinweis schließen"
+            >
+              <X className="w-5 h-5" aria-hidden="true" />
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-amber-800">{storageError}</p>
+        </div>
+      )}
+
+      {/* Export failed or was incomplete */}
+      {exportError && (
+        <div className="my-8 rounded-3xl p-6 border bg-red-50/80 border-red-200">
+          <div className="flex items-center justify-between gap-3 font-bold text-lg text-red-800">
+            <span>Export</span>
+            <button
+              onClick={() => setExportError(null)}
+              className="p-2 rounded-xl hover:bg-red-100 transition-colors duration-200"
+              type="button"
+              aria-label="Hinweis schließen"
+            >
+              <X className="w-5 h-5" aria-hidden="true" />
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-red-800">{exportError}</p>
+        </div>
+      )}
+
+      {/* Project file could not be saved or opened */}
+      {projectError && (
+        <div className="my-8 rounded-3xl p-6 border bg-red-50/80 border-red-200">
+          <div className="flex items-center justify-between gap-3 font-bold text-lg text-red-800">
+            <span>Projektdatei</span>
+            <button
+              onClick={() => setProjectError(null)}
+              className="p-2 rounded-xl hover:bg-red-100 transition-colors duration-200"
+              type="button"
+              aria-label="Hinweis schließen"
+            >
+              <X className="w-5 h-5" aria-hidden="true" />
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-red-800">{projectError}</p>
+        </div>
+      )}
+
       {/* Enhanced Import Status for Large Files */}
       {isImporting && (
         <div className="my-8 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/30 p-8">
-          <div className="mb-3 font-bold text-lg">Import läuft...</div>
+          <div className="mb-3 flex items-center justify-between gap-4">
+            <span className="font-bold text-lg">Import läuft...</span>
+            <button
+              onClick={cancelRunningImport}
+              disabled={!importAbortRef.current}
+              className="px-4 py-2 rounded-xl text-sm font-bold bg-gray-100 text-gray-800 hover:bg-red-50 hover:text-red-700 disabled:opacity-50 transition-colors duration-200 min-h-[40px] flex items-center gap-2"
+              type="button"
+            >
+              <X className="w-4 h-4" aria-hidden="true" /> Abbrechen
+            </button>
+          </div>
           <div className="w-full h-4 bg-gray-200 rounded-full overflow-hidden">
             <div
               className="h-4 bg-gradient-to-r from-blue-600 via-purple-600 to-cyan-600 transition-all duration-300 ease-out"
-              style={{ width: `${importProgress}%` }}
+              style={{ width: `${importPercent}%` }}
             />
           </div>
           <div className="mt-3 flex justify-between text-sm text-gray-600">
-            <span>{importProgress}% abgeschlossen</span>
+            <span>{importPercent}% abgeschlossen</span>
             {addresses.length > 50000 && (
               <span>Großes Dataset wird verarbeitet...</span>
             )}
           </div>
+
+          {/* Per-file progress and files dropped meanwhile */}
+          {(importProgress.length > 1 || queuedFiles.length > 0) && (
+            <div className="mt-4">
+              <ImportQueue running={importProgress} queued={queuedFiles} onRemoveQueued={removeQueuedFile} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Files waiting while the wizard is open */}
+      {!isImporting && queuedFiles.length > 0 && (
+        <div className="my-8 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/30 p-6">
+          <div className="mb-3 font-bold text-lg">Import-Warteschlange</div>
+          <ImportQueue running={[]} queued={queuedFiles} onRemoveQueued={removeQueuedFile} />
         </div>
       )}
 
@@ -485,20 +1167,56 @@ export default function AddressManager() {
               <Stat label="Duplikate übersprungen" value={importStats.duplicatesSkipped} highlight="amber" />
             </div>
           )}
+          {!importStats.error && importStats.mode === 'upsert' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+              <Stat label="Aktualisiert" value={importStats.updated ?? 0} highlight="green" />
+              <Stat label="Unverändert" value={importStats.unchanged ?? 0} />
+              <Stat label="Konflikte" value={importStats.conflicts ?? 0} highlight={importStats.conflicts ? 'red' : undefined} />
+            </div>
+          )}
           {importStats.error && (
             <div className="mt-4 p-4 bg-red-100 rounded-lg">
               <p className="text-red-800 text-sm">{importStats.error}</p>
             </div>
           )}
+          {importStats.fileResults && (importStats.fileResults.length > 1 || importStats.fileResults.some(r => r.status === 'failed')) && (
+            <FileResultTable results={importStats.fileResults} />
+          )}
         </div>
       )}
 
+      {/* Previous imports, each one can be rolled back */}
+      <ImportHistory batches={importBatches} addresses={addresses} onRollback={rollbackBatch} />
+
+      {/* Skipped, coerced and suspicious rows of the last import */}
+      <ImportReport issues={importIssues} onClose={closeImportReport} />
+
+      {/* Likely duplicates waiting for a decision */}
+      <DuplicateReview queue={reviewQueue} onResolve={resolveDuplicate} onResolveAll={resolveAllDuplicates} />
+
       {/* Main content */}
-      {!hasGroupedAddresses ? (
+      {!hasAddresses ? (
         <EmptyState isNative={isNative} />
       ) : (
         <>
-          <RegionList grouped={groupedAddresses} expanded={expandedRegions} onToggle={toggleRegion} onUpdate={updateAddress} />
+          <div className="lg:grid lg:grid-cols-[280px_minmax(0,1fr)] lg:gap-6 lg:items-start">
+            <FacetPanel result={facetResult} filters={facetFilters} onChange={setFacetFilters} />
+            {hasGroupedAddresses ? (
+              <RegionList
+                grouped={groupedAddresses}
+                expanded={expandedRegions}
+                sortKeys={sortKeys}
+                onSort={sortByColumn}
+                onToggle={toggleRegion}
+                onUpdate={updateAddress}
+                onPrintWalkList={printGroupWalkList}
+              />
+            ) : (
+              <div className="bg-white/90 rounded-3xl shadow-lg border border-gray-100 p-8 text-center text-gray-600">
+                Keine Adressen entsprechen der Suche und den Filtern.
+              </div>
+            )}
+          </div>
 
           {/* Enhanced Stats Dashboard with ISP-specific metrics */}
           <div className="mt-8 bg-white/70 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/30 p-6 md:p-8">
@@ -568,7 +1286,7 @@ export default function AddressManager() {
             </div>
 
             {/* PLZ View Info */}
-            {sortBy === 'PLZ' && (
+            {groupBy === 'PLZ' && (
               <div className="mt-6 p-4 bg-blue-50/80 rounded-2xl border border-blue-200">
                 <p className="text-sm text-blue-800 flex items-center gap-2">
                   <MapPin className="w-4 h-4" />
@@ -1,24 +1,35 @@
 'use client';
 
-import { Download, Search, Filter, TrendingUp, Building2, FileSpreadsheet } from 'lucide-react';
-import React, { memo, useCallback, useRef, useMemo, ChangeEvent } from 'react';
-
-// Fokus auf die wichtigsten Filter
-type FilterOption = 'all' | 'kein_vertrag' | 'mit_vertrag' | 'has_notes';
-type SortOption = 'PLZ' | 'Region' | 'Adresse' | 'Anzahl der Homes' | 'Preis Standardprodukt (€)';
+import { Download, Search, TrendingUp, Building2, FileSpreadsheet, FolderOpen, Save, ClipboardPaste, Bookmark, Link2, Trash2, ArrowDown, ArrowUp, Layers, Plus, X } from 'lucide-react';
+import React, { memo, useCallback, useRef, useMemo, useState, ChangeEvent } from 'react';
+import type { GroupOption, SortField, SortKey } from '@/lib/types';
+import { IMPORT_FILE_ACCEPT } from '@/lib/excel';
+import { QUERY_FIELD_NAMES, queryErrorSegments, type QueryError } from '@/lib/query';
+import type { ViewPreset } from '@/lib/views';
+import { SORT_FIELDS, defaultDirection } from '@/lib/sort';
 
 interface ControlsProps {
   isImporting: boolean;
   onExcelChosen: (files: File[]) => void;
+  onPasteClick: () => void;
   allowExport: boolean;
   onExport: () => void;
+  onSaveProject: (compress: boolean) => void;
+  onOpenProject: (file: File) => void;
   isNative: boolean;
   searchTerm: string;
   setSearchTerm: (v: string) => void;
-  filterBy: FilterOption;
-  setFilterBy: (v: FilterOption) => void;
-  sortBy: SortOption;
-  setSortBy: (v: SortOption) => void;
+  searchErrors: QueryError[];
+  activeFilterCount: number; // facets and ranges set in the filter panel
+  viewPresets: ViewPreset[];
+  onApplyPreset: (name: string) => void;
+  onSavePreset: (name: string) => void; // throws when the preset cannot be stored
+  onDeletePreset: (name: string) => void;
+  groupBy: GroupOption;
+  setGroupBy: (v: GroupOption) => void;
+  sortKeys: SortKey[];
+  setSortKeys: (v: SortKey[]) => void;
+  rankedByRelevance: boolean; // search hits come first by score, the sort keys break ties
 }
 
 /* ----------------------------- Subcomponents ----------------------------- */
@@ -48,12 +59,14 @@ const ActionButtons = memo(({
   allowExport,
   isNative: _isNative,
   onImportClick,
+  onPasteClick,
   onExport,
 }: {
   isImporting: boolean;
   allowExport: boolean;
   isNative: boolean;
   onImportClick: () => void;
+  onPasteClick: () => void;
   onExport: () => void;
 }) => {
   const importButtonText = useMemo(
@@ -75,27 +88,40 @@ const ActionButtons = memo(({
         <span className="text-sm md:text-base">{importButtonText}</span>
       </button>
 
+      <button
+        onClick={onPasteClick}
+        disabled={isImporting}
+        className="bg-white border border-blue-200 text-blue-700 px-4 md:px-6 py-3 rounded-2xl font-bold shadow-sm disabled:opacity-60 transition-all duration-200 hover:bg-blue-50 disabled:cursor-not-allowed min-h-[44px] w-full sm:w-auto flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        type="button"
+        aria-label="Aus Zwischenablage einfügen"
+      >
+        <ClipboardPaste className="w-5 h-5" aria-hidden="true" />
+        <span className="text-sm md:text-base">Einfügen</span>
+      </button>
+
       {allowExport && (
         <button
           onClick={onExport}
           className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 md:px-6 py-3 rounded-2xl font-bold shadow-md transition-all duration-200 hover:shadow-lg min-h-[44px] w-full sm:w-auto flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
           type="button"
-          aria-label="CSV exportieren"
+          aria-label="Excel exportieren"
         >
           <Download className="w-5 h-5" aria-hidden="true" />
-          <span className="text-sm md:text-base">CSV exportieren</span>
+          <span className="text-sm md:text-base">Excel exportieren</span>
         </button>
       )}
     </div>
   );
 });
 
-// Enhanced Search Input with better accessibility
+// Search input with query syntax; invalid parts are highlighted below the field
 const SearchInput = memo(({
   searchTerm,
+  errors,
   onSearchChange,
 }: {
   searchTerm: string;
+  errors: QueryError[];
   onSearchChange: (value: string) => void;
 }) => {
   const handleInputChange = useCallback(
@@ -105,68 +131,100 @@ const SearchInput = memo(({
     [onSearchChange]
   );
 
+  const segments = useMemo(
+    () => (errors.length ? queryErrorSegments(searchTerm, errors) : []),
+    [searchTerm, errors]
+  );
+  const hasErrors = errors.length > 0;
+
   return (
-    <div className="relative col-span-full lg:col-span-2">
-      <label htmlFor="search-input" className="sr-only">
-        Suche nach PLZ, Adresse, Region oder Baufirma
-      </label>
-      <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" aria-hidden="true" />
-      <input
-        id="search-input"
-        type="text"
-        placeholder="Suche: PLZ, Adresse, Region, Baufirma..."
-        value={searchTerm}
-        onChange={handleInputChange}
-        className="w-full pl-12 pr-4 py-3 md:py-4 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white/80 transition-all duration-200 focus:border-blue-300 text-sm md:text-base min-h-[44px]"
-        autoComplete="off"
-        spellCheck="false"
-        role="searchbox"
-        aria-describedby="search-help"
-      />
+    <div className="col-span-full lg:col-span-2">
+      <div className="relative">
+        <label htmlFor="search-input" className="sr-only">
+          Suche in allen Adressfeldern
+        </label>
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" aria-hidden="true" />
+        <input
+          id="search-input"
+          type="text"
+          placeholder="Suche: Adresse, Region … oder plz:4541 homes>=4 -notes:besucht"
+          value={searchTerm}
+          onChange={handleInputChange}
+          className={`w-full pl-12 pr-4 py-3 md:py-4 border rounded-2xl focus:ring-2 focus:outline-none bg-white/80 transition-all duration-200 text-sm md:text-base min-h-[44px] ${
+            hasErrors ? 'border-red-300 focus:ring-red-400' : 'border-gray-200/50 focus:ring-blue-500 focus:border-blue-300'
+          }`}
+          autoComplete="off"
+          spellCheck="false"
+          role="searchbox"
+          aria-invalid={hasErrors}
+          aria-describedby={hasErrors ? 'search-help search-errors' : 'search-help'}
+        />
+      </div>
       <div id="search-help" className="sr-only">
-        Durchsuchen Sie Adressen nach Postleitzahl, Adresstext, Region oder Baufirma
+        Durchsucht alle Textfelder (Adresse, PLZ, Region, Code, KG-Nummer, ANO, Status, Baufirma, Notizen);
+        Umlaute und ß werden wie ae, oe, ue und ss behandelt. Gezielte Suche mit
+        Feld:Wert, Vergleichen wie homes&gt;=4, Bereichen wie price:100..300, Anführungszeichen, OR, NOT und Minus.
       </div>
+
+      {hasErrors && (
+        <div id="search-errors" className="mt-2 rounded-xl bg-red-50/80 border border-red-200 px-3 py-2 text-xs" role="alert">
+          <div className="font-mono whitespace-pre-wrap break-all text-gray-700">
+            {segments.map((seg, i) =>
+              seg.error ? (
+                <mark key={i} className="bg-red-200 text-red-900 rounded underline decoration-wavy decoration-red-600">
+                  {seg.text}
+                </mark>
+              ) : (
+                <span key={i}>{seg.text}</span>
+              )
+            )}
+          </div>
+          <ul className="mt-1 text-red-700 space-y-0.5">
+            {errors.map((e, i) => (
+              <li key={i}>{e.message}</li>
+            ))}
+          </ul>
+          <div className="mt-1 text-gray-500">Bis zur Korrektur wird der Text als einfache Suche verwendet.</div>
+        </div>
+      )}
     </div>
   );
 });
 
-// Enhanced Filter options with better descriptions
-const FILTER_OPTIONS: ReadonlyArray<{ value: FilterOption; label: string; description: string }> = [
-  { value: 'all', label: 'Alle Adressen', description: 'Alle Adressen anzeigen ohne Filterung' },
-  { value: 'kein_vertrag', label: 'Kein Vertrag', description: 'Adressen ohne Verträge (Spalte I = 0)' },
-  { value: 'mit_vertrag', label: 'Mit Vertrag', description: 'Adressen mit Verträgen (Spalte I > 0)' },
-  { value: 'has_notes', label: 'Mit Notizen', description: 'Adressen die Notizen haben' },
+const GROUP_OPTIONS: ReadonlyArray<{ value: GroupOption; label: string; description: string }> = [
+  { value: 'PLZ', label: 'Nach PLZ gruppieren', description: 'Eine Gruppe je Postleitzahl' },
+  { value: 'Region', label: 'Nach Region gruppieren', description: 'Eine Gruppe je Regionsname' },
 ] as const;
 
-// Enhanced Filter Select with accessibility
-const FilterSelect = memo(({
-  filterBy,
-  onFilterChange,
+// Grouping of the list; the order inside the groups comes from the sort keys
+const GroupSelect = memo(({
+  groupBy,
+  onGroupChange,
 }: {
-  filterBy: FilterOption;
-  onFilterChange: (value: FilterOption) => void;
+  groupBy: GroupOption;
+  onGroupChange: (value: GroupOption) => void;
 }) => {
   const handleSelectChange = useCallback(
     (e: ChangeEvent<HTMLSelectElement>) => {
-      onFilterChange(e.target.value as FilterOption);
+      onGroupChange(e.target.value as GroupOption);
     },
-    [onFilterChange]
+    [onGroupChange]
   );
 
   return (
     <div className="relative">
-      <label htmlFor="filter-select" className="sr-only">
-        Adressen nach Kategorie filtern
+      <label htmlFor="group-select" className="sr-only">
+        Adressen gruppieren
       </label>
-      <Filter className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" aria-hidden="true" />
+      <Layers className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" aria-hidden="true" />
       <select
-        id="filter-select"
-        value={filterBy}
+        id="group-select"
+        value={groupBy}
         onChange={handleSelectChange}
         className="w-full pl-12 pr-4 py-3 md:py-4 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white/80 transition-all duration-200 focus:border-blue-300 cursor-pointer text-sm md:text-base min-h-[44px]"
-        aria-label="Adressen nach Kategorie filtern"
+        aria-label="Adressen gruppieren"
       >
-        {FILTER_OPTIONS.map((option) => (
+        {GROUP_OPTIONS.map((option) => (
           <option key={option.value} value={option.value} title={option.description}>
             {option.label}
           </option>
@@ -176,49 +234,88 @@ const FilterSelect = memo(({
   );
 });
 
-// Enhanced Sort options with clearer labels
-const SORT_OPTIONS: ReadonlyArray<{ value: SortOption; label: string; description: string }> = [
-  { value: 'PLZ', label: 'Nach PLZ', description: 'Nach Postleitzahl gruppieren und sortieren' },
-  { value: 'Region', label: 'Nach Region', description: 'Nach Regionsname gruppieren und sortieren' },
-  { value: 'Adresse', label: 'Nach Adresse', description: 'Alphabetisch nach Adresse sortieren' },
-  { value: 'Anzahl der Homes', label: 'Nach Homes', description: 'Nach Anzahl der Homes sortieren (höchste zuerst)' },
-  { value: 'Preis Standardprodukt (€)', label: 'Nach Preis', description: 'Nach Preis sortieren (höchste zuerst)' },
-] as const;
-
-// Enhanced Sort Select with accessibility
-const SortSelect = memo(({
-  sortBy,
-  onSortChange,
+// Ordered sort keys, each with its own direction; the first key decides, later ones break ties
+const SortKeysEditor = memo(({
+  sortKeys,
+  rankedByRelevance,
+  onChange,
 }: {
-  sortBy: SortOption;
-  onSortChange: (value: SortOption) => void;
+  sortKeys: SortKey[];
+  rankedByRelevance: boolean;
+  onChange: (keys: SortKey[]) => void;
 }) => {
-  const handleSelectChange = useCallback(
-    (e: ChangeEvent<HTMLSelectElement>) => {
-      onSortChange(e.target.value as SortOption);
+  const update = useCallback(
+    (index: number, key: SortKey | null) => {
+      const next = [...sortKeys];
+      if (key) next[index] = key;
+      else next.splice(index, 1);
+      onChange(next);
     },
-    [onSortChange]
+    [sortKeys, onChange]
   );
 
+  const handleAdd = useCallback(() => {
+    const unused = SORT_FIELDS.find(f => !sortKeys.some(k => k.field === f.field));
+    if (unused) onChange([...sortKeys, { field: unused.field, direction: defaultDirection(unused.field) }]);
+  }, [sortKeys, onChange]);
+
   return (
-    <div className="relative">
-      <label htmlFor="sort-select" className="sr-only">
-        Adressen nach verschiedenen Kriterien sortieren
-      </label>
-      <TrendingUp className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" aria-hidden="true" />
-      <select
-        id="sort-select"
-        value={sortBy}
-        onChange={handleSelectChange}
-        className="w-full pl-12 pr-4 py-3 md:py-4 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white/80 transition-all duration-200 focus:border-blue-300 cursor-pointer text-sm md:text-base min-h-[44px]"
-        aria-label="Adressen nach verschiedenen Kriterien sortieren"
-      >
-        {SORT_OPTIONS.map((option) => (
-          <option key={option.value} value={option.value} title={option.description}>
-            {option.label}
-          </option>
-        ))}
-      </select>
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="flex items-center gap-1 font-medium text-gray-700">
+        <TrendingUp className="w-4 h-4 text-gray-400" aria-hidden="true" /> Sortierung:
+      </span>
+      {rankedByRelevance && (
+        <span className="text-gray-500" title="Eigene Sortierung wählen, um die Relevanz abzuschalten">
+          Relevanz
+        </span>
+      )}
+      {sortKeys.length === 0 && !rankedByRelevance && <span className="text-gray-500">Importreihenfolge</span>}
+      {sortKeys.map((key, index) => (
+        <span key={key.field} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-xl border border-gray-200/50 bg-white/80">
+          {(index > 0 || rankedByRelevance) && <span className="text-xs text-gray-500">dann</span>}
+          <select
+            value={key.field}
+            onChange={e => {
+              const field = e.target.value as SortField;
+              update(index, { field, direction: defaultDirection(field) });
+            }}
+            className="bg-transparent focus:outline-none cursor-pointer"
+            aria-label={`Sortierschlüssel ${index + 1}`}
+          >
+            {SORT_FIELDS.filter(f => f.field === key.field || !sortKeys.some(k => k.field === f.field)).map(f => (
+              <option key={f.field} value={f.field}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => update(index, { ...key, direction: key.direction === 'asc' ? 'desc' : 'asc' })}
+            className="p-1 rounded-lg text-gray-600 hover:bg-gray-100"
+            type="button"
+            title={key.direction === 'asc' ? 'Aufsteigend' : 'Absteigend'}
+            aria-label={`Richtung umkehren (aktuell ${key.direction === 'asc' ? 'aufsteigend' : 'absteigend'})`}
+          >
+            {key.direction === 'asc' ? <ArrowUp className="w-4 h-4" aria-hidden="true" /> : <ArrowDown className="w-4 h-4" aria-hidden="true" />}
+          </button>
+          <button
+            onClick={() => update(index, null)}
+            className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-red-700"
+            type="button"
+            aria-label="Sortierschlüssel entfernen"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </span>
+      ))}
+      {sortKeys.length < SORT_FIELDS.length && (
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 px-2 py-1 rounded-xl text-blue-700 font-medium hover:bg-blue-50"
+          type="button"
+        >
+          <Plus className="w-4 h-4" aria-hidden="true" /> Sortierung
+        </button>
+      )}
     </div>
   );
 });
@@ -247,7 +344,7 @@ const FileInput = memo(({
     <input
       ref={inputRef}
       type="file"
-      accept=".xlsx,.xls,.csv"
+      accept={IMPORT_FILE_ACCEPT}
       multiple
       className="hidden"
       onChange={handleFileChange}
@@ -257,6 +354,187 @@ const FileInput = memo(({
   );
 });
 
+// Save / open the complete working state as a project file
+const ProjectButtons = memo(({
+  allowSave,
+  onSave,
+  onOpen,
+}: {
+  allowSave: boolean;
+  onSave: (compress: boolean) => void;
+  onOpen: (file: File) => void;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [compress, setCompress] = useState(true);
+
+  const handleSave = useCallback(() => onSave(compress), [onSave, compress]);
+  const handleOpenClick = useCallback(() => inputRef.current?.click(), []);
+  const handleFileChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) onOpen(file);
+      e.currentTarget.value = '';
+    },
+    [onOpen]
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!allowSave}
+          className="px-3 py-3 rounded-2xl text-sm font-bold bg-white/80 border border-gray-200/50 text-gray-800 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 min-h-[44px] flex items-center justify-center gap-2"
+          type="button"
+          title="Adressen, Notizen, Importverlauf und Ansicht als Datei speichern"
+        >
+          <Save className="w-4 h-4" aria-hidden="true" /> Projekt speichern
+        </button>
+        <button
+          onClick={handleOpenClick}
+          className="px-3 py-3 rounded-2xl text-sm font-bold bg-white/80 border border-gray-200/50 text-gray-800 hover:bg-gray-50 transition-colors duration-200 min-h-[44px] flex items-center justify-center gap-2"
+          type="button"
+          title="Gespeichertes Projekt öffnen"
+        >
+          <FolderOpen className="w-4 h-4" aria-hidden="true" /> Projekt öffnen
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600 px-1 cursor-pointer">
+        <input type="checkbox" checked={compress} onChange={e => setCompress(e.target.checked)} className="w-4 h-4" />
+        Komprimiert speichern (.gz)
+      </label>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.gz,application/json,application/gzip"
+        className="hidden"
+        onChange={handleFileChange}
+        aria-label="Projektdatei auswählen"
+      />
+    </div>
+  );
+});
+
+// Named views (search, filters, sort, open groups) and a link to the current one
+const ViewPresets = memo(({
+  presets,
+  onApply,
+  onSave,
+  onDelete,
+}: {
+  presets: ViewPreset[];
+  onApply: (name: string) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+}) => {
+  const [activeName, setActiveName] = useState('');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleApply = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      setActiveName(e.target.value);
+      if (e.target.value) onApply(e.target.value);
+    },
+    [onApply]
+  );
+
+  const handleSave = useCallback(() => {
+    try {
+      onSave(draft);
+      setActiveName(draft.trim());
+      setDraft('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [onSave, draft]);
+
+  const handleDelete = useCallback(() => {
+    onDelete(activeName);
+    setActiveName('');
+  }, [onDelete, activeName]);
+
+  // The URL always holds the current view
+  const handleCopyLink = useCallback(() => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.warn('Copying the view link failed:', err));
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <label htmlFor="view-preset-select" className="sr-only">
+          Gespeicherte Ansicht öffnen
+        </label>
+        <select
+          id="view-preset-select"
+          value={presets.some(p => p.name === activeName) ? activeName : ''}
+          onChange={handleApply}
+          className="flex-1 min-w-0 px-3 py-3 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white/80 cursor-pointer text-sm min-h-[44px]"
+        >
+          <option value="">{presets.length ? 'Gespeicherte Ansichten…' : 'Keine gespeicherten Ansichten'}</option>
+          {presets.map(p => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        {activeName && presets.some(p => p.name === activeName) && (
+          <button
+            onClick={handleDelete}
+            className="px-3 rounded-2xl border border-gray-200/50 bg-white/80 text-gray-600 hover:text-red-700 hover:bg-gray-50 transition-colors duration-200 min-h-[44px]"
+            type="button"
+            title="Ansicht löschen"
+            aria-label={`Ansicht ${activeName} löschen`}
+          >
+            <Trash2 className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          onClick={handleCopyLink}
+          className="px-3 rounded-2xl border border-gray-200/50 bg-white/80 text-gray-700 hover:bg-gray-50 transition-colors duration-200 min-h-[44px] text-xs font-bold flex items-center gap-1"
+          type="button"
+          title="Link zu dieser Ansicht kopieren"
+          aria-label="Link zu dieser Ansicht kopieren"
+        >
+          <Link2 className="w-4 h-4" aria-hidden="true" />
+          {copied && 'Kopiert'}
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && draft.trim()) handleSave();
+          }}
+          placeholder="Ansicht benennen, z. B. „4541 ohne Vertrag“"
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white/80 text-sm"
+          aria-label="Name der Ansicht"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!draft.trim()}
+          className="px-3 py-2 rounded-xl text-sm font-bold bg-white/80 border border-gray-200/50 text-gray-800 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center gap-1"
+          type="button"
+          title="Suche, Filter, Sortierung und geöffnete Gruppen als Ansicht speichern"
+        >
+          <Bookmark className="w-4 h-4" aria-hidden="true" /> Speichern
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700 px-1">{error}</p>}
+    </div>
+  );
+});
+
 /* --------------------------------- Main Component ---------------------------------- */
 
 export default function Controls(props: ControlsProps) {
@@ -273,18 +551,11 @@ export default function Controls(props: ControlsProps) {
     [props.setSearchTerm]
   );
 
-  const handleFilterChange = useCallback(
-    (value: FilterOption) => {
-      props.setFilterBy(value);
-    },
-    [props.setFilterBy]
-  );
-
-  const handleSortChange = useCallback(
-    (value: SortOption) => {
-      props.setSortBy(value);
+  const handleGroupChange = useCallback(
+    (value: GroupOption) => {
+      props.setGroupBy(value);
     },
-    [props.setSortBy]
+    [props.setGroupBy]
   );
 
   const handleFilesSelected = useCallback(
@@ -305,6 +576,7 @@ export default function Controls(props: ControlsProps) {
           allowExport={props.allowExport}
           isNative={props.isNative}
           onImportClick={handleImportClick}
+          onPasteClick={props.onPasteClick}
           onExport={props.onExport}
         />
       </div>
@@ -312,20 +584,26 @@ export default function Controls(props: ControlsProps) {
       {/* Hidden File Input with accessibility */}
       <FileInput onFilesSelected={handleFilesSelected} inputRef={fileInputRef} />
       <div id="file-input-help" className="sr-only">
-        Wählen Sie eine oder mehrere Excel- oder CSV-Dateien zum Importieren aus
+        Wählen Sie eine oder mehrere Excel- oder CSV-Dateien zum Importieren aus oder ziehen Sie sie auf die Seite
       </div>
 
-      {/* Search and Filter Controls */}
+      {/* Search, Sort and View Controls */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
-        <SearchInput searchTerm={props.searchTerm} onSearchChange={handleSearchChange} />
-
-        <FilterSelect filterBy={props.filterBy} onFilterChange={handleFilterChange} />
+        <SearchInput searchTerm={props.searchTerm} errors={props.searchErrors} onSearchChange={handleSearchChange} />
 
-        <SortSelect sortBy={props.sortBy} onSortChange={handleSortChange} />
+        <GroupSelect groupBy={props.groupBy} onGroupChange={handleGroupChange} />
         
-        {/* Empty column for better spacing on desktop */}
-        <div className="hidden lg:block"></div>
+        <ViewPresets
+          presets={props.viewPresets}
+          onApply={props.onApplyPreset}
+          onSave={props.onSavePreset}
+          onDelete={props.onDeletePreset}
+        />
+
+        <ProjectButtons allowSave={props.allowExport} onSave={props.onSaveProject} onOpen={props.onOpenProject} />
       </div>
+
+      <SortKeysEditor sortKeys={props.sortKeys} rankedByRelevance={props.rankedByRelevance} onChange={props.setSortKeys} />
   
         {/* ------------------------- Enhanced Help Section ------------------------- */}
         <div className="bg-blue-50/50 rounded-xl p-4 border border-blue-200/50 space-y-3">
@@ -340,22 +618,34 @@ export default function Controls(props: ControlsProps) {
           {/* Help Text */}
           <div className="text-blue-700 text-sm leading-relaxed space-y-3">
             <p>
-              Nutze die <strong>Suche</strong>, um spezifische Adressen zu finden, und wende 
-              anschließend <strong>Filter</strong> an, um nach Vertragsstatus oder Notizen zu filtern.  
+              Nutze die <strong>Suche</strong>, um spezifische Adressen zu finden, und grenze sie im
+              <strong> Filter</strong>-Bereich nach Vertrag, Status, Baufirma, PLZ, Homes oder Preis ein –
+              die Zahlen zeigen, wie viele Adressen jede Auswahl übrig lässt. Die Ansicht steht in der
+              Adresszeile: Link kopieren und teilen oder als <strong>Ansicht</strong> speichern.
               Die <strong>PLZ-Ansicht</strong> gruppiert deine Daten optimal für regionale Bearbeitung.
+              Sortiert wird nach beliebig vielen Feldern, jeweils auf- oder absteigend: Spaltenköpfe der Tabelle
+              anklicken, mit Umschalt+Klick weitere Felder hinzufügen.
+            </p>
+
+            <p>
+              <strong>Gezielt suchen:</strong>{' '}
+              <code className="font-mono text-xs">plz:4541 homes&gt;=4 status:&quot;In Betrieb&quot; -notes:besucht price:100..300</code>.
+              Begriffe werden mit UND verknüpft, <code className="font-mono text-xs">OR</code>,{' '}
+              <code className="font-mono text-xs">NOT</code> und Klammern sind möglich. Felder:{' '}
+              {QUERY_FIELD_NAMES.join(', ')}.
             </p>
         
             <div>
               <p className="font-medium mb-1">So gehst du vor:</p>
               <ol className="list-decimal list-inside space-y-1">
                 <li>
-                  <strong>CSV oder Excel importieren:</strong> Daten werden gespeichert, Duplikate automatisch entfernt.
+                  <strong>CSV oder Excel importieren:</strong> Dateien auswählen oder auf die Seite ziehen – Daten werden gespeichert, Duplikate automatisch entfernt.
                 </li>
                 <li>
                   <strong>Arbeiten:</strong> Sortiere, filtere und notiere wichtige Informationen.
                 </li>
                 <li>
-                  <strong>Exportieren:</strong> Speichere deine Änderungen dauerhaft als CSV.
+                  <strong>Exportieren:</strong> Speichere deine Änderungen dauerhaft als Excel-Datei (.xlsx).
                 </li>
               </ol>
             </div>
@@ -365,9 +655,9 @@ export default function Controls(props: ControlsProps) {
         {props.searchTerm && (
           <div className="mt-3 pt-3 border-t border-blue-200/30 text-xs text-blue-600">
             <span className="font-medium">Aktuelle Suche:</span> "{props.searchTerm}"
-            {props.filterBy !== 'all' && (
+            {props.activeFilterCount > 0 && (
               <span className="ml-2">
-                | <span className="font-medium">Filter:</span> {FILTER_OPTIONS.find(opt => opt.value === props.filterBy)?.label}
+                | <span className="font-medium">Filter:</span> {props.activeFilterCount} aktiv
               </span>
             )}
           </div>
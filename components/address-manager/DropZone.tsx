@@ -0,0 +1,76 @@
+'use client';
+
+import { Upload } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+
+/* ------------------------------ Types ------------------------------------- */
+interface DropZoneProps {
+  onFilesDropped: (files: File[]) => void;
+}
+
+// Only drags that carry files (not text or links from the page) open the overlay
+const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+/* ------------------------------- Main ------------------------------------- */
+// Files can be dropped anywhere on the page; the overlay only shows while dragging
+export default function DropZone({ onFilesDropped }: DropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element - count them to know when the page is left
+  const depthRef = useRef(0);
+  const onDropRef = useRef(onFilesDropped);
+  onDropRef.current = onFilesDropped;
+
+  useEffect(() => {
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      // Without preventDefault the browser opens the file instead of dropping it
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      if (files.length > 0) onDropRef.current(files);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  if (!isDragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-blue-900/30 backdrop-blur-sm flex items-center justify-center p-6 pointer-events-none" aria-hidden="true">
+      <div className="bg-white/90 rounded-3xl border-4 border-dashed border-blue-400 px-10 py-12 text-center shadow-2xl">
+        <Upload className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+        <div className="text-xl md:text-2xl font-black text-gray-900">Dateien hier ablegen</div>
+        <div className="mt-2 text-sm text-gray-600">Excel- und CSV-Dateien werden der Import-Warteschlange hinzugefügt</div>
+      </div>
+    </div>
+  );
+}
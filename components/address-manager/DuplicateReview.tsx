@@ -0,0 +1,127 @@
+'use client';
+
+import { Copy, GitMerge } from 'lucide-react';
+import React, { memo, useCallback, useState } from 'react';
+import type { Address, DuplicateCandidate, DuplicateDecision } from '@/lib/types';
+
+/* ------------------------------ Types ------------------------------------- */
+interface DuplicateReviewProps {
+  queue: DuplicateCandidate[];
+  onResolve: (candidate: DuplicateCandidate, decision: DuplicateDecision) => void;
+  onResolveAll: (decision: DuplicateDecision) => void;
+}
+
+// Render the queue in pages so a large import doesn't mount thousands of rows
+const PAGE_SIZE = 25;
+
+const DECISIONS: ReadonlyArray<{ value: DuplicateDecision; label: string; title: string }> = [
+  { value: 'keep-both', label: 'Beide behalten', title: 'Neue Zeile zusätzlich übernehmen' },
+  { value: 'keep-existing', label: 'Vorhandene behalten', title: 'Neue Zeile verwerfen' },
+  { value: 'keep-incoming', label: 'Neue behalten', title: 'Vorhandene Zeile durch die neue ersetzen (Notizen bleiben)' },
+  { value: 'merge', label: 'Zusammenführen', title: 'Leere Felder der vorhandenen Zeile aus der neuen ergänzen' },
+] as const;
+
+/* --------------------------- Address Summary ------------------------------ */
+const AddressSummary = memo(({ label, addr }: { label: string; addr: Address }) => (
+  <div className="flex-1 min-w-0 p-3 rounded-xl bg-white border border-gray-200">
+    <div className="text-xs font-bold text-gray-500 mb-1">{label}</div>
+    <div className="font-bold text-sm break-words">{addr.address}</div>
+    <div className="text-xs text-gray-600 mt-1 space-x-2">
+      {addr.addressCode && <span className="font-mono">ID: {addr.addressCode}</span>}
+      <span>{addr.homes ?? 0} Homes</span>
+      {addr.status && <span>{addr.status}</span>}
+    </div>
+    {addr.notes && <div className="text-xs text-gray-700 mt-1 italic break-words">{addr.notes}</div>}
+  </div>
+));
+
+/* ------------------------------ Pair Row ---------------------------------- */
+const CandidateRow = memo(({
+  candidate,
+  onResolve,
+}: {
+  candidate: DuplicateCandidate;
+  onResolve: (candidate: DuplicateCandidate, decision: DuplicateDecision) => void;
+}) => (
+  <li className="p-4 rounded-2xl border border-amber-200 bg-amber-50/50">
+    <div className="flex items-center justify-between mb-3">
+      <span className="text-sm font-bold text-amber-800">Ähnlichkeit {Math.round(candidate.score * 100)}%</span>
+    </div>
+    <div className="flex flex-col md:flex-row gap-3">
+      <AddressSummary label="Vorhanden" addr={candidate.existing} />
+      <AddressSummary label="Neu aus Import" addr={candidate.incoming} />
+    </div>
+    <div className="flex flex-wrap gap-2 mt-3">
+      {DECISIONS.map(d => (
+        <button
+          key={d.value}
+          onClick={() => onResolve(candidate, d.value)}
+          className="px-3 py-2 rounded-xl text-xs font-bold bg-white border border-gray-200 hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200 min-h-[36px]"
+          type="button"
+          title={d.title}
+        >
+          {d.label}
+        </button>
+      ))}
+    </div>
+  </li>
+));
+
+/* ------------------------------- Main ------------------------------------- */
+export default function DuplicateReview({ queue, onResolve, onResolveAll }: DuplicateReviewProps) {
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const handleShowMore = useCallback(() => setVisible(v => v + PAGE_SIZE), []);
+
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="my-8 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-amber-200 p-6 md:p-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-black flex items-center gap-2 text-amber-800">
+          <Copy className="w-5 h-5" aria-hidden="true" />
+          Mögliche Duplikate prüfen ({queue.length.toLocaleString('de-DE')})
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onResolveAll('keep-both')}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px]"
+            type="button"
+          >
+            Alle übernehmen
+          </button>
+          <button
+            onClick={() => onResolveAll('merge')}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px] flex items-center gap-1"
+            type="button"
+          >
+            <GitMerge className="w-4 h-4" aria-hidden="true" /> Alle zusammenführen
+          </button>
+          <button
+            onClick={() => onResolveAll('keep-existing')}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px]"
+            type="button"
+          >
+            Alle verwerfen
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {queue.slice(0, visible).map(candidate => (
+          <CandidateRow key={candidate.incoming.id} candidate={candidate} onResolve={onResolve} />
+        ))}
+      </ul>
+
+      {visible < queue.length && (
+        <button
+          onClick={handleShowMore}
+          className="mt-4 w-full px-4 py-3 rounded-2xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200"
+          type="button"
+        >
+          Weitere anzeigen ({(queue.length - visible).toLocaleString('de-DE')} offen)
+        </button>
+      )}
+    </div>
+  );
+}
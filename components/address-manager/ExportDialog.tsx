@@ -0,0 +1,379 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Download, X } from 'lucide-react';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import type { ExportFormat, ExportOptions, ExportScope, NativeDirectory } from '@/lib/types';
+import { EXPORT_COLUMNS } from '@/lib/excel';
+import {
+  defaultExportPreferences,
+  FILE_NAME_PLACEHOLDERS,
+  loadExportPreferences,
+  renderExportFileName,
+  saveExportPreferences,
+} from '@/lib/exporter';
+
+/* ------------------------------ Types ------------------------------------- */
+interface ExportDialogProps {
+  groups: Array<{ name: string; count: number }>; // groups of the current view
+  totalCount: number;
+  filteredCount: number;
+  changedCount: number; // rows edited since import or the last change export
+  preselectedGroups: string[];
+  isNative: boolean; // offers the target directory of the native app
+  onConfirm: (options: ExportOptions) => void;
+  onCancel: () => void;
+}
+
+const SCOPES: ReadonlyArray<{ value: ExportScope; label: string }> = [
+  { value: 'all', label: 'Alle Adressen' },
+  { value: 'filtered', label: 'Gefilterte Ansicht' },
+  { value: 'groups', label: 'Ausgewählte Gruppen' },
+  { value: 'changed', label: 'Nur Änderungen' },
+] as const;
+
+const FORMATS: ReadonlyArray<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', description: 'Übersichtsblatt und ein Blatt je Gruppe' },
+  { value: 'csv', label: 'CSV', description: 'Eine Tabelle, für andere Programme' },
+  { value: 'ics', label: 'Kalender (.ics)', description: 'D2D-Zeiträume und geplante Fertigstellungen' },
+] as const;
+
+const DIRECTORIES: ReadonlyArray<{ value: NativeDirectory; label: string; description: string }> = [
+  { value: 'DOCUMENTS', label: 'Dokumente', description: 'Bleibt auf dem Gerät gespeichert' },
+  { value: 'CACHE', label: 'Zwischenspeicher', description: 'Nur zum Teilen, wird vom System aufgeräumt' },
+] as const;
+
+// Chosen columns first (in chosen order), the rest in default order after them
+function initialColumnOrder(chosen: string[]): string[] {
+  return [...chosen, ...EXPORT_COLUMNS.filter(c => !chosen.includes(c))];
+}
+
+/* ------------------------------ Column Row -------------------------------- */
+const ColumnRow = memo(({
+  column,
+  checked,
+  isFirst,
+  isLast,
+  onToggle,
+  onMove,
+}: {
+  column: string;
+  checked: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggle: (column: string) => void;
+  onMove: (column: string, delta: -1 | 1) => void;
+}) => (
+  <li className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-xl hover:bg-gray-50">
+    <label className="flex items-center gap-2 min-w-0 cursor-pointer text-sm">
+      <input type="checkbox" checked={checked} onChange={() => onToggle(column)} className="w-4 h-4" />
+      <span className={`truncate ${checked ? 'font-medium' : 'text-gray-500'}`}>{column}</span>
+    </label>
+    <span className="flex gap-1 shrink-0">
+      <button
+        onClick={() => onMove(column, -1)}
+        disabled={isFirst}
+        className="p-1 rounded-lg text-gray-600 hover:bg-gray-200 disabled:opacity-30"
+        type="button"
+        aria-label={`${column} nach oben`}
+      >
+        <ArrowUp className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <button
+        onClick={() => onMove(column, 1)}
+        disabled={isLast}
+        className="p-1 rounded-lg text-gray-600 hover:bg-gray-200 disabled:opacity-30"
+        type="button"
+        aria-label={`${column} nach unten`}
+      >
+        <ArrowDown className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </span>
+  </li>
+));
+
+/* ------------------------------- Main ------------------------------------- */
+export default function ExportDialog({
+  groups,
+  totalCount,
+  filteredCount,
+  changedCount,
+  preselectedGroups,
+  isNative,
+  onConfirm,
+  onCancel,
+}: ExportDialogProps) {
+  const [preferences] = useState(loadExportPreferences);
+  const [scope, setScope] = useState<ExportScope>(filteredCount < totalCount ? 'filtered' : 'all');
+  const [format, setFormat] = useState<ExportFormat>(preferences.format);
+  const [order, setOrder] = useState<string[]>(() => initialColumnOrder(preferences.columns));
+  const [enabled, setEnabled] = useState<Set<string>>(() => new Set(preferences.columns));
+  const [selectedGroups, setSelectedGroups] = useState<Set<string>>(() => new Set(preselectedGroups));
+  const [fileNameTemplate, setFileNameTemplate] = useState(preferences.fileNameTemplate);
+  const [nativeDirectory, setNativeDirectory] = useState<NativeDirectory>(preferences.nativeDirectory);
+
+  const columns = useMemo(() => order.filter(c => enabled.has(c)), [order, enabled]);
+
+  const rowCount = useMemo(() => {
+    if (scope === 'all') return totalCount;
+    if (scope === 'filtered') return filteredCount;
+    if (scope === 'changed') return changedCount;
+    return groups.reduce((sum, g) => sum + (selectedGroups.has(g.name) ? g.count : 0), 0);
+  }, [scope, totalCount, filteredCount, changedCount, groups, selectedGroups]);
+
+  const handleToggleColumn = useCallback((column: string) => {
+    setEnabled(prev => {
+      const next = new Set(prev);
+      next.has(column) ? next.delete(column) : next.add(column);
+      return next;
+    });
+  }, []);
+
+  const handleMoveColumn = useCallback((column: string, delta: -1 | 1) => {
+    setOrder(prev => {
+      const from = prev.indexOf(column);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }, []);
+
+  const handleResetColumns = useCallback(() => {
+    const defaults = defaultExportPreferences().columns;
+    setOrder(defaults);
+    setEnabled(new Set(defaults));
+  }, []);
+
+  const handleToggleGroup = useCallback((name: string) => {
+    setSelectedGroups(prev => {
+      const next = new Set(prev);
+      next.has(name) ? next.delete(name) : next.add(name);
+      return next;
+    });
+  }, []);
+
+  const fileNamePreview = useMemo(
+    () => renderExportFileName(fileNameTemplate, { format, scope, count: rowCount }),
+    [fileNameTemplate, format, scope, rowCount]
+  );
+
+  const handleConfirm = useCallback(() => {
+    saveExportPreferences({ columns, format, fileNameTemplate, nativeDirectory });
+    onConfirm({
+      scope,
+      groups: groups.filter(g => selectedGroups.has(g.name)).map(g => g.name),
+      columns,
+      format,
+      fileNameTemplate,
+      nativeDirectory,
+    });
+  }, [columns, format, fileNameTemplate, nativeDirectory, scope, groups, selectedGroups, onConfirm]);
+
+  const usesColumns = format !== 'ics';
+  const canExport = (!usesColumns || columns.length > 0) && rowCount > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="export-dialog-title">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="export-dialog-title" className="text-xl md:text-2xl font-black flex items-center gap-2">
+            <Download className="w-6 h-6 text-green-600" aria-hidden="true" />
+            Exportieren
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors duration-200"
+            type="button"
+            aria-label="Export abbrechen"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 px-6 py-4 space-y-6">
+          {/* Scope */}
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Umfang</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {SCOPES.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-xl border cursor-pointer text-sm ${
+                    scope === option.value ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="export-scope"
+                    value={option.value}
+                    checked={scope === option.value}
+                    onChange={() => setScope(option.value)}
+                  />
+                  <span className="font-bold">{option.label}</span>
+                  {option.value === 'changed' && (
+                    <span className="ml-auto text-gray-500 whitespace-nowrap">{changedCount.toLocaleString('de-DE')}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+
+            {scope === 'changed' && (
+              <p className="mt-3 text-sm text-gray-600">
+                Enthält zusätzlich die Spalte „Geänderte Felder“ und die vorherigen Werte. Nach dem Export gelten
+                diese Adressen wieder als unverändert.
+              </p>
+            )}
+
+            {scope === 'groups' && (
+              <div className="mt-3 max-h-48 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {groups.map(group => (
+                  <label
+                    key={group.name}
+                    className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl border border-gray-200 hover:bg-blue-50/50 cursor-pointer text-sm"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selectedGroups.has(group.name)}
+                        onChange={() => handleToggleGroup(group.name)}
+                        className="w-4 h-4"
+                      />
+                      <span className="font-medium truncate">{group.name}</span>
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">{group.count.toLocaleString('de-DE')}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          {/* Format */}
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Format</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {FORMATS.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-2 px-3 py-2 rounded-xl border cursor-pointer text-sm ${
+                    format === option.value ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={option.value}
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-bold block">{option.label}</span>
+                    <span className="text-gray-600">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* File name and target */}
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Datei</legend>
+            <label htmlFor="export-file-name" className="sr-only">
+              Dateiname
+            </label>
+            <input
+              id="export-file-name"
+              type="text"
+              value={fileNameTemplate}
+              onChange={e => setFileNameTemplate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:outline-none text-sm min-h-[44px]"
+              aria-describedby="export-file-name-help"
+            />
+            <p id="export-file-name-help" className="mt-1 text-xs text-gray-600">
+              Platzhalter: {FILE_NAME_PLACEHOLDERS.join(', ')} · Ergebnis: <span className="font-mono">{fileNamePreview}</span>
+            </p>
+
+            {isNative && (
+              <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {DIRECTORIES.map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex items-start gap-2 px-3 py-2 rounded-xl border cursor-pointer text-sm ${
+                      nativeDirectory === option.value ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="export-directory"
+                      value={option.value}
+                      checked={nativeDirectory === option.value}
+                      onChange={() => setNativeDirectory(option.value)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-bold block">{option.label}</span>
+                      <span className="text-gray-600">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          {/* Columns */}
+          {usesColumns && (
+            <fieldset>
+              <legend className="w-full flex items-center justify-between mb-2 text-sm font-medium text-gray-700">
+                <span>
+                  Spalten ({columns.length} von {order.length})
+                </span>
+                <button
+                  onClick={handleResetColumns}
+                  className="text-sm font-medium text-blue-700 hover:underline"
+                  type="button"
+                >
+                  Standard wiederherstellen
+                </button>
+              </legend>
+              <ul className="border border-gray-200 rounded-2xl p-2">
+                {order.map((column, i) => (
+                  <ColumnRow
+                    key={column}
+                    column={column}
+                    checked={enabled.has(column)}
+                    isFirst={i === 0}
+                    isLast={i === order.length - 1}
+                    onToggle={handleToggleColumn}
+                    onMove={handleMoveColumn}
+                  />
+                ))}
+              </ul>
+              {columns.length === 0 && <p className="mt-2 text-sm text-red-700">Bitte mindestens eine Spalte auswählen.</p>}
+            </fieldset>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onCancel}
+            className="px-4 md:px-6 py-3 rounded-2xl font-bold bg-gray-100 text-gray-800 hover:bg-gray-200 transition-colors duration-200 min-h-[44px]"
+            type="button"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canExport}
+            className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 md:px-6 py-3 rounded-2xl font-bold shadow-md disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-lg min-h-[44px] flex items-center justify-center gap-2"
+            type="button"
+          >
+            <Download className="w-5 h-5" aria-hidden="true" /> {rowCount.toLocaleString('de-DE')} Adressen exportieren
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import React, { memo, useCallback, useMemo, useState, ChangeEvent } from 'react';
+import type { FacetFilters, FacetKey, RangeKey } from '@/lib/types';
+import { FACETS, RANGES, activeFilterCount, facetValueLabel, type FacetResult } from '@/lib/facets';
+
+/* ------------------------------ Types ------------------------------------- */
+interface FacetPanelProps {
+  result: FacetResult;
+  filters: FacetFilters;
+  onChange: (filters: FacetFilters) => void;
+}
+
+// Values shown per facet before "show all"
+const COLLAPSED_VALUES = 8;
+
+/* ------------------------------ Facet Group ------------------------------- */
+const FacetGroup = memo(({
+  facetKey,
+  label,
+  counts,
+  selected,
+  onToggle,
+}: {
+  facetKey: FacetKey;
+  label: string;
+  counts: Map<string, number>;
+  selected: string[] | undefined;
+  onToggle: (key: FacetKey, value: string) => void;
+}) => {
+  const [showAll, setShowAll] = useState(false);
+
+  // Selected values stay visible even when no row has them any more
+  const values = useMemo(() => {
+    const entries = [...counts];
+    for (const value of selected ?? []) if (!counts.has(value)) entries.push([value, 0]);
+    return entries.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'de', { numeric: true }));
+  }, [counts, selected]);
+
+  if (values.length === 0) return null;
+
+  const visible = showAll ? values : values.slice(0, COLLAPSED_VALUES);
+
+  return (
+    <fieldset className="py-3 border-t border-gray-100 first:border-t-0">
+      <legend className="text-sm font-bold text-gray-800 mb-2">{label}</legend>
+      <ul className="space-y-1">
+        {visible.map(([value, count]) => {
+          const checked = selected?.includes(value) ?? false;
+          return (
+            <li key={value}>
+              <label className="flex items-center gap-2 text-sm cursor-pointer rounded-lg px-1 py-0.5 hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => onToggle(facetKey, value)}
+                  className="w-4 h-4 flex-shrink-0"
+                />
+                <span className={`truncate flex-1 ${count === 0 && !checked ? 'text-gray-400' : ''}`} title={facetValueLabel(facetKey, value)}>
+                  {facetValueLabel(facetKey, value)}
+                </span>
+                <span className="text-xs text-gray-500 tabular-nums">{count.toLocaleString('de-DE')}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      {values.length > COLLAPSED_VALUES && (
+        <button
+          onClick={() => setShowAll(v => !v)}
+          className="mt-1 text-xs font-medium text-blue-700 hover:underline"
+          type="button"
+        >
+          {showAll ? 'Weniger anzeigen' : `Alle ${values.length.toLocaleString('de-DE')} anzeigen`}
+        </button>
+      )}
+    </fieldset>
+  );
+});
+
+/* ------------------------------ Range Filter ------------------------------ */
+const RangeFilter = memo(({
+  rangeKey,
+  label,
+  bounds,
+  range,
+  onChange,
+}: {
+  rangeKey: RangeKey;
+  label: string;
+  bounds: { min: number; max: number };
+  range: { min: number; max: number } | undefined;
+  onChange: (key: RangeKey, range: { min: number; max: number } | undefined) => void;
+}) => {
+  // The range of the whole list can shrink below a saved filter (after a search) - widen to show it
+  const lower = Math.min(bounds.min, range?.min ?? Infinity);
+  const upper = Math.max(bounds.max, range?.max ?? -Infinity);
+  const min = range?.min ?? lower;
+  const max = range?.max ?? upper;
+
+  const update = useCallback(
+    (nextMin: number, nextMax: number) => {
+      // Spanning everything again means no filter
+      onChange(rangeKey, nextMin <= lower && nextMax >= upper ? undefined : { min: nextMin, max: nextMax });
+    },
+    [onChange, rangeKey, lower, upper]
+  );
+
+  const handleMin = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => update(Math.min(Number(e.target.value), max), max),
+    [update, max]
+  );
+  const handleMax = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => update(min, Math.max(Number(e.target.value), min)),
+    [update, min]
+  );
+
+  if (lower === upper && !range) return null;
+
+  const step = rangeKey === 'price' ? 'any' : 1;
+
+  return (
+    <fieldset className="py-3 border-t border-gray-100">
+      <legend className="text-sm font-bold text-gray-800 mb-2">{label}</legend>
+      <div className="flex justify-between text-xs text-gray-600 tabular-nums mb-1">
+        <span>{min.toLocaleString('de-DE')}</span>
+        <span>{max.toLocaleString('de-DE')}</span>
+      </div>
+      <input
+        type="range"
+        min={lower}
+        max={upper}
+        step={step}
+        value={min}
+        onChange={handleMin}
+        className="w-full accent-blue-600"
+        aria-label={`${label} von`}
+      />
+      <input
+        type="range"
+        min={lower}
+        max={upper}
+        step={step}
+        value={max}
+        onChange={handleMax}
+        className="w-full accent-blue-600"
+        aria-label={`${label} bis`}
+      />
+    </fieldset>
+  );
+});
+
+/* ------------------------------- Main ------------------------------------- */
+// Sidebar next to the list; counts show how many rows each value would leave
+export default function FacetPanel({ result, filters, onChange }: FacetPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = activeFilterCount(filters);
+
+  const handleToggle = useCallback(
+    (key: FacetKey, value: string) => {
+      const current = filters.selected[key] ?? [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      const selected = { ...filters.selected };
+      if (next.length) selected[key] = next;
+      else delete selected[key];
+      onChange({ ...filters, selected });
+    },
+    [filters, onChange]
+  );
+
+  const handleRange = useCallback(
+    (key: RangeKey, range: { min: number; max: number } | undefined) => {
+      const ranges = { ...filters.ranges };
+      if (range) ranges[key] = range;
+      else delete ranges[key];
+      onChange({ ...filters, ranges });
+    },
+    [filters, onChange]
+  );
+
+  const handleReset = useCallback(() => onChange({ selected: {}, ranges: {} }), [onChange]);
+
+  return (
+    <aside
+      className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-lg border border-gray-100 p-4 mb-6 lg:mb-0 lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:overflow-y-auto"
+      aria-label="Filter"
+    >
+      <div className="flex items-center justify-between gap-2">
+        {/* On small screens the panel folds away above the list */}
+        <button
+          onClick={() => setIsOpen(v => !v)}
+          className="flex items-center gap-2 text-lg font-black lg:cursor-default"
+          type="button"
+          aria-expanded={isOpen}
+        >
+          <SlidersHorizontal className="w-5 h-5 text-blue-600" aria-hidden="true" />
+          Filter
+          {active > 0 && (
+            <span className="px-2 py-0.5 rounded-lg bg-blue-600 text-white text-xs font-bold">{active}</span>
+          )}
+          <ChevronDown className={`w-4 h-4 lg:hidden transition-transform ${isOpen ? 'rotate-180' : ''}`} aria-hidden="true" />
+        </button>
+        {active > 0 && (
+          <button onClick={handleReset} className="text-sm font-medium text-blue-700 hover:underline" type="button">
+            Zurücksetzen
+          </button>
+        )}
+      </div>
+
+      <div className={`${isOpen ? 'block' : 'hidden'} lg:block mt-3`}>
+        <div className="text-xs text-gray-500 mb-1">
+          {result.matches.length.toLocaleString('de-DE')} Adressen entsprechen den Filtern
+        </div>
+        {FACETS.map(f => (
+          <FacetGroup
+            key={f.key}
+            facetKey={f.key}
+            label={f.label}
+            counts={result.counts[f.key]}
+            selected={filters.selected[f.key]}
+            onToggle={handleToggle}
+          />
+        ))}
+        {RANGES.map(r => (
+          <RangeFilter
+            key={r.key}
+            rangeKey={r.key}
+            label={r.label}
+            bounds={result.bounds[r.key]}
+            range={filters.ranges[r.key]}
+            onChange={handleRange}
+          />
+        ))}
+      </div>
+    </aside>
+  );
+}
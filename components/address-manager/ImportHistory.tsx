@@ -0,0 +1,134 @@
+'use client';
+
+import { ChevronDown, ChevronRight, History, Undo2 } from 'lucide-react';
+import React, { memo, useMemo, useState } from 'react';
+import type { Address, ImportBatch } from '@/lib/types';
+
+/* ------------------------------ Types ------------------------------------- */
+interface ImportHistoryProps {
+  batches: ImportBatch[];
+  addresses: Address[];
+  onRollback: (batch: ImportBatch) => void;
+}
+
+type BatchUsage = { remaining: number; edited: number };
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString('de-DE');
+}
+
+/* ------------------------------ Batch Row --------------------------------- */
+const BatchRow = memo(({
+  batch,
+  usage,
+  onRollback,
+}: {
+  batch: ImportBatch;
+  usage: BatchUsage;
+  onRollback: (batch: ImportBatch) => void;
+}) => {
+  // Two-step button instead of a blocking confirm() dialog
+  const [confirming, setConfirming] = useState(false);
+  const removable = usage.remaining - usage.edited;
+
+  return (
+    <li className="p-4 rounded-2xl border border-gray-200 bg-white flex flex-col md:flex-row md:items-center justify-between gap-4">
+      <div className="min-w-0">
+        <div className="font-bold text-sm break-words">{batch.fileNames.join(', ')}</div>
+        <div className="text-xs text-gray-600 mt-1 flex flex-wrap gap-x-3 gap-y-1">
+          <span>{formatTimestamp(batch.createdAt)}</span>
+          <span>{batch.mode === 'upsert' ? 'Abgleich' : 'Nur neue'}</span>
+          <span>{batch.totalProcessed.toLocaleString('de-DE')} verarbeitet</span>
+          <span>{batch.imported.toLocaleString('de-DE')} importiert</span>
+          {batch.updated > 0 && <span>{batch.updated.toLocaleString('de-DE')} aktualisiert</span>}
+          <span>{batch.duplicatesSkipped.toLocaleString('de-DE')} Duplikate</span>
+          {batch.heldForReview > 0 && <span>{batch.heldForReview.toLocaleString('de-DE')} zur Prüfung</span>}
+        </div>
+        <div className="text-xs text-gray-500 mt-1">
+          Noch {usage.remaining.toLocaleString('de-DE')} Adressen im Bestand
+          {usage.edited > 0 && `, davon ${usage.edited.toLocaleString('de-DE')} manuell bearbeitet (bleiben erhalten)`}
+        </div>
+      </div>
+
+      {confirming ? (
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => onRollback(batch)}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-red-600 text-white hover:bg-red-700 transition-colors duration-200 min-h-[40px]"
+            type="button"
+          >
+            {removable.toLocaleString('de-DE')} Adressen entfernen
+          </button>
+          <button
+            onClick={() => setConfirming(false)}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px]"
+            type="button"
+          >
+            Abbrechen
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setConfirming(true)}
+          className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-red-50 hover:text-red-700 transition-colors duration-200 min-h-[40px] flex items-center gap-1 shrink-0"
+          type="button"
+          title={batch.updated > 0 ? 'Aktualisierungen vorhandener Adressen werden nicht zurückgesetzt' : undefined}
+        >
+          <Undo2 className="w-4 h-4" aria-hidden="true" /> Import entfernen
+        </button>
+      )}
+    </li>
+  );
+});
+
+/* ------------------------------- Main ------------------------------------- */
+export default function ImportHistory({ batches, addresses, onRollback }: ImportHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // One pass over the portfolio instead of filtering per batch
+  const usage = useMemo(() => {
+    const map = new Map<string, BatchUsage>();
+    if (!isOpen) return map;
+    for (const a of addresses) {
+      if (!a.batchId) continue;
+      const u = map.get(a.batchId) ?? { remaining: 0, edited: 0 };
+      u.remaining++;
+      if (a.editedAt) u.edited++;
+      map.set(a.batchId, u);
+    }
+    return map;
+  }, [addresses, isOpen]);
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="my-8 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-gray-200 p-6 md:p-8">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-full flex items-center justify-between text-left"
+        type="button"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-black flex items-center gap-2">
+          <History className="w-5 h-5" aria-hidden="true" />
+          Importverlauf ({batches.length.toLocaleString('de-DE')})
+        </h3>
+        {isOpen ? <ChevronDown className="w-5 h-5" /> : <ChevronRight className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <ul className="space-y-3 mt-6">
+          {batches.map(batch => (
+            <BatchRow
+              key={batch.id}
+              batch={batch}
+              usage={usage.get(batch.id) ?? { remaining: 0, edited: 0 }}
+              onRollback={onRollback}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { X } from 'lucide-react';
+import React, { memo } from 'react';
+import type { FileImportStatus, ImportProgress } from '@/lib/types';
+
+/* ------------------------------ Types ------------------------------------- */
+interface ImportQueueProps {
+  running: ImportProgress[]; // files of the import in progress
+  queued: File[]; // files waiting for the next import
+  onRemoveQueued: (index: number) => void;
+}
+
+const STATUS_STYLES: Record<FileImportStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  parsing: 'bg-blue-50 text-blue-700',
+  done: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+function statusText(p: Pick<ImportProgress, 'status' | 'processedRows' | 'totalRows'>): string {
+  switch (p.status) {
+    case 'queued':
+      return 'wartet';
+    case 'parsing':
+      return p.totalRows > 0
+        ? `${p.processedRows.toLocaleString('de-DE')} / ${p.totalRows.toLocaleString('de-DE')} Zeilen`
+        : 'wird gelesen...';
+    case 'done':
+      return '✓ fertig';
+    case 'failed':
+      return '✗ fehlgeschlagen';
+  }
+}
+
+/* ------------------------------ Queue Row --------------------------------- */
+const QueueRow = memo(({
+  fileName,
+  status,
+  text,
+  onRemove,
+}: {
+  fileName: string;
+  status: FileImportStatus;
+  text: string;
+  onRemove?: () => void;
+}) => (
+  <li className="flex items-center justify-between gap-4">
+    <span className="truncate font-medium" title={fileName}>
+      {fileName}
+    </span>
+    <span className="flex items-center gap-2 flex-shrink-0">
+      <span className={`px-2 py-0.5 rounded-lg text-xs font-bold whitespace-nowrap ${STATUS_STYLES[status]}`}>{text}</span>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-red-700 transition-colors duration-200"
+          type="button"
+          aria-label={`${fileName} aus der Warteschlange entfernen`}
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+        </button>
+      )}
+    </span>
+  </li>
+));
+
+/* ------------------------------- Main ------------------------------------- */
+// Status of every file of the running import plus the files dropped meanwhile
+export default function ImportQueue({ running, queued, onRemoveQueued }: ImportQueueProps) {
+  if (running.length === 0 && queued.length === 0) return null;
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {running.map(p => (
+        <QueueRow key={`run-${p.fileIndex}`} fileName={p.fileName} status={p.status} text={statusText(p)} />
+      ))}
+      {queued.map((file, index) => (
+        <QueueRow
+          key={`queue-${index}-${file.name}`}
+          fileName={file.name}
+          status="queued"
+          text={statusText({ status: 'queued', processedRows: 0, totalRows: 0 })}
+          onRemove={() => onRemoveQueued(index)}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { ClipboardList, Download, X } from 'lucide-react';
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { fileDateStamp } from '@/lib/download';
+import { saveFileNativeOrWeb } from '@/lib/native';
+import type { ImportIssue, ImportIssueKind } from '@/lib/types';
+import { ISSUE_KIND_LABELS, issuesToCSV } from '@/lib/validation';
+
+/* ------------------------------ Types ------------------------------------- */
+interface ImportReportProps {
+  issues: ImportIssue[];
+  onClose: () => void;
+}
+
+type KindFilter = ImportIssueKind | 'all';
+
+// Large imports can produce tens of thousands of findings - page the table
+const PAGE_SIZE = 50;
+
+const KIND_STYLES: Record<ImportIssueKind, string> = {
+  skipped: 'bg-red-50 text-red-700 border-red-200',
+  coerced: 'bg-amber-50 text-amber-700 border-amber-200',
+  suspicious: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+const KINDS = Object.keys(ISSUE_KIND_LABELS) as ImportIssueKind[];
+
+/* ------------------------------ Issue Row --------------------------------- */
+const IssueRow = memo(({ issue }: { issue: ImportIssue }) => (
+  <tr className="border-t border-gray-100 align-top">
+    <td className="px-3 py-2 break-all">
+      {issue.fileName}
+      {issue.sheet && <span className="block text-xs text-gray-500">{issue.sheet}</span>}
+    </td>
+    <td className="px-3 py-2 font-mono">{issue.row}</td>
+    <td className="px-3 py-2 break-words">{issue.column || '–'}</td>
+    <td className="px-3 py-2 font-mono break-all">{issue.rawValue || '–'}</td>
+    <td className="px-3 py-2">
+      <span className={`inline-block px-2 py-0.5 rounded-lg border text-xs font-bold ${KIND_STYLES[issue.kind]}`}>
+        {ISSUE_KIND_LABELS[issue.kind]}
+      </span>
+    </td>
+    <td className="px-3 py-2">{issue.message}</td>
+  </tr>
+));
+
+/* ------------------------------- Main ------------------------------------- */
+export default function ImportReport({ issues, onClose }: ImportReportProps) {
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const result: Record<ImportIssueKind, number> = { skipped: 0, coerced: 0, suspicious: 0 };
+    for (const issue of issues) result[issue.kind]++;
+    return result;
+  }, [issues]);
+
+  const filtered = useMemo(
+    () => (kind === 'all' ? issues : issues.filter(i => i.kind === kind)),
+    [issues, kind]
+  );
+
+  const handleKind = useCallback((next: KindFilter) => {
+    setKind(next);
+    setVisible(PAGE_SIZE);
+  }, []);
+
+  const handleShowMore = useCallback(() => setVisible(v => v + PAGE_SIZE), []);
+
+  const handleDownload = useCallback(() => {
+    // BOM so Excel picks up UTF-8 umlauts
+    const blob = new Blob(['\uFEFF' + issuesToCSV(filtered)], { type: 'text/csv;charset=utf-8' });
+    setDownloadError(null);
+    saveFileNativeOrWeb(blob, `import-bericht-${fileDateStamp()}.csv`).catch((error: Error) =>
+      setDownloadError('Bericht konnte nicht gespeichert werden: ' + error.message)
+    );
+  }, [filtered]);
+
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="my-8 bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-gray-200 p-6 md:p-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-black flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" aria-hidden="true" />
+          Importbericht ({issues.length.toLocaleString('de-DE')} Hinweise)
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleDownload}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px] flex items-center gap-1"
+            type="button"
+          >
+            <Download className="w-4 h-4" aria-hidden="true" /> CSV herunterladen
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-xl bg-gray-100 hover:bg-gray-200 transition-colors duration-200 min-h-[40px] min-w-[40px] flex items-center justify-center"
+            type="button"
+            aria-label="Bericht schließen"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      {downloadError && (
+        <p className="mb-4 text-sm text-red-700" role="alert">
+          {downloadError}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Nach Art filtern">
+        <button
+          onClick={() => handleKind('all')}
+          className={`px-3 py-1.5 rounded-xl text-sm font-bold border transition-colors duration-200 ${
+            kind === 'all' ? 'bg-gray-900 text-white border-gray-900' : 'bg-white border-gray-200 hover:bg-gray-50'
+          }`}
+          type="button"
+          aria-pressed={kind === 'all'}
+        >
+          Alle ({issues.length.toLocaleString('de-DE')})
+        </button>
+        {KINDS.map(k => (
+          <button
+            key={k}
+            onClick={() => handleKind(k)}
+            className={`px-3 py-1.5 rounded-xl text-sm font-bold border transition-colors duration-200 ${
+              kind === k ? 'bg-gray-900 text-white border-gray-900' : KIND_STYLES[k]
+            }`}
+            type="button"
+            aria-pressed={kind === k}
+            disabled={counts[k] === 0}
+          >
+            {ISSUE_KIND_LABELS[k]} ({counts[k].toLocaleString('de-DE')})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-gray-200">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+            <tr>
+              <th className="px-3 py-2">Datei</th>
+              <th className="px-3 py-2">Zeile</th>
+              <th className="px-3 py-2">Spalte</th>
+              <th className="px-3 py-2">Rohwert</th>
+              <th className="px-3 py-2">Art</th>
+              <th className="px-3 py-2">Hinweis</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.slice(0, visible).map((issue, index) => (
+              <IssueRow key={`${issue.fileName}-${issue.sheet}-${issue.row}-${index}`} issue={issue} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {visible < filtered.length && (
+        <button
+          onClick={handleShowMore}
+          className="mt-4 w-full px-4 py-3 rounded-2xl text-sm font-bold bg-gray-100 hover:bg-gray-200 transition-colors duration-200"
+          type="button"
+        >
+          Weitere anzeigen ({(filtered.length - visible).toLocaleString('de-DE')} offen)
+        </button>
+      )}
+    </div>
+  );
+}
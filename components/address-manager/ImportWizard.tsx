@@ -0,0 +1,419 @@
+'use client';
+
+import { Check, FileSpreadsheet, Layers, Save, Trash2, X } from 'lucide-react';
+import React, { memo, useCallback, useMemo, useState, ChangeEvent } from 'react';
+import type { ColumnMapping, FileImportPlan, ImportField, ImportMode, SheetInfo } from '@/lib/types';
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  MappingProfile,
+  applyMappingProfile,
+  deleteMappingProfile,
+  findProfileForHeaders,
+  loadMappingProfiles,
+  saveMappingProfile,
+  suggestColumnMapping,
+} from '@/lib/mapping';
+
+/* ------------------------------ Types ------------------------------------- */
+interface ImportWizardProps {
+  files: File[];
+  workbooks: SheetInfo[][]; // worksheet overview per file, same order as files
+  onConfirm: (plans: FileImportPlan[], mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+type FileMappingState = {
+  sheets: string[]; // selected worksheets
+  mapping: ColumnMapping;
+  profileName: string | null; // profile the mapping came from (if any)
+};
+
+// Union of the header rows of the selected sheets, in order of first appearance
+function collectHeaders(workbook: SheetInfo[], sheets: string[]): string[] {
+  const seen = new Set<string>();
+  for (const sheet of workbook) {
+    if (!sheets.includes(sheet.name)) continue;
+    for (const h of sheet.headers) seen.add(h);
+  }
+  return [...seen];
+}
+
+function initialMappingState(workbook: SheetInfo[]): FileMappingState {
+  // Preselect every sheet that actually carries data
+  const withData = workbook.filter(s => s.rowCount > 0 && s.headers.length > 0).map(s => s.name);
+  const sheets = withData.length > 0 ? withData : workbook.slice(0, 1).map(s => s.name);
+  const headers = collectHeaders(workbook, sheets);
+
+  const profile = findProfileForHeaders(headers);
+  if (profile) {
+    return { sheets, mapping: applyMappingProfile(profile, headers), profileName: profile.name };
+  }
+  return { sheets, mapping: suggestColumnMapping(headers), profileName: null };
+}
+
+// Keep existing choices and suggest targets only for headers that just appeared
+function extendMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const used = new Set(Object.values(mapping).filter(Boolean));
+  const suggested = suggestColumnMapping(headers);
+  const next: ColumnMapping = {};
+  for (const h of headers) {
+    if (h in mapping) {
+      next[h] = mapping[h];
+    } else {
+      const field = suggested[h];
+      next[h] = field && !used.has(field) ? field : null;
+      if (next[h]) used.add(next[h]);
+    }
+  }
+  return next;
+}
+
+const IMPORT_MODES: ReadonlyArray<{ value: ImportMode; label: string; description: string }> = [
+  { value: 'skip', label: 'Nur neue hinzufügen', description: 'Bereits vorhandene Adressen werden übersprungen.' },
+  {
+    value: 'upsert',
+    label: 'Abgleichen & aktualisieren',
+    description: 'Abgleich über adrcd-subcd (sonst Adresse); geänderte Felder werden übernommen, Notizen bleiben erhalten.',
+  },
+] as const;
+
+/* --------------------------- Mapping Row ---------------------------------- */
+const MappingRow = memo(({
+  header,
+  field,
+  onChange,
+}: {
+  header: string;
+  field: ImportField | null;
+  onChange: (header: string, field: ImportField | null) => void;
+}) => {
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      onChange(header, (e.target.value || null) as ImportField | null);
+    },
+    [onChange, header]
+  );
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4 items-center py-2 border-b border-gray-100 last:border-0">
+      <div className="font-medium text-sm break-words">{header}</div>
+      <select
+        value={field ?? ''}
+        onChange={handleChange}
+        className={`w-full px-3 py-2 border rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none min-h-[40px] ${
+          field ? 'border-blue-200 bg-blue-50/50' : 'border-gray-200 bg-white text-gray-500'
+        }`}
+        aria-label={`Zielfeld für Spalte ${header}`}
+      >
+        <option value="">— ignorieren —</option>
+        {IMPORT_FIELDS.map(f => (
+          <option key={f} value={f}>
+            {IMPORT_FIELD_LABELS[f]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+});
+
+/* ------------------------------- Main ------------------------------------- */
+export default function ImportWizard({ files, workbooks, onConfirm, onCancel }: ImportWizardProps) {
+  const [activeFile, setActiveFile] = useState(0);
+  const [states, setStates] = useState<FileMappingState[]>(() => workbooks.map(initialMappingState));
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [profileDraft, setProfileDraft] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('skip');
+
+  const current = states[activeFile];
+  const currentWorkbook = workbooks[activeFile] ?? [];
+  const currentHeaders = useMemo(
+    () => collectHeaders(currentWorkbook, current?.sheets ?? []),
+    [currentWorkbook, current]
+  );
+
+  // Every file needs at least the address column, otherwise all rows would be skipped
+  const missingAddress = useMemo(
+    () => states.map(s => !Object.values(s.mapping).includes('address')),
+    [states]
+  );
+  const missingSheets = useMemo(() => states.map(s => s.sheets.length === 0), [states]);
+
+  // Warn when the same field is fed by several columns (only the first non-empty one is used)
+  const duplicateFields = useMemo(() => {
+    const seen = new Map<ImportField, number>();
+    for (const field of Object.values(current?.mapping ?? {})) {
+      if (field) seen.set(field, (seen.get(field) ?? 0) + 1);
+    }
+    return [...seen].filter(([, n]) => n > 1).map(([f]) => IMPORT_FIELD_LABELS[f]);
+  }, [current]);
+
+  const handleFieldChange = useCallback(
+    (header: string, field: ImportField | null) => {
+      setStates(prev =>
+        prev.map((s, i) => (i === activeFile ? { ...s, mapping: { ...s.mapping, [header]: field }, profileName: null } : s))
+      );
+    },
+    [activeFile]
+  );
+
+  const handleToggleSheet = useCallback(
+    (name: string) => {
+      setStates(prev =>
+        prev.map((s, i) => {
+          if (i !== activeFile) return s;
+          const sheets = s.sheets.includes(name) ? s.sheets.filter(n => n !== name) : [...s.sheets, name];
+          // Keep workbook order so imports run sheet by sheet as listed
+          const ordered = currentWorkbook.map(w => w.name).filter(n => sheets.includes(n));
+          return { ...s, sheets: ordered, mapping: extendMapping(s.mapping, collectHeaders(currentWorkbook, ordered)) };
+        })
+      );
+    },
+    [activeFile, currentWorkbook]
+  );
+
+  const handleApplyProfile = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      const name = e.target.value;
+      setStates(prev =>
+        prev.map((s, i) => {
+          if (i !== activeFile) return s;
+          if (!name) return { ...s, mapping: suggestColumnMapping(currentHeaders), profileName: null };
+          const profile = profiles.find(p => p.name === name);
+          return profile ? { ...s, mapping: applyMappingProfile(profile, currentHeaders), profileName: profile.name } : s;
+        })
+      );
+    },
+    [activeFile, currentHeaders, profiles]
+  );
+
+  const handleSaveProfile = useCallback(() => {
+    try {
+      const profile = saveMappingProfile(profileDraft, currentHeaders, current.mapping);
+      setProfiles(loadMappingProfiles());
+      setStates(prev => prev.map((s, i) => (i === activeFile ? { ...s, profileName: profile.name } : s)));
+      setProfileDraft('');
+      setProfileError(null);
+    } catch (error) {
+      setProfileError(error instanceof Error ? error.message : String(error));
+    }
+  }, [profileDraft, currentHeaders, current, activeFile]);
+
+  const handleDeleteProfile = useCallback(() => {
+    if (!current?.profileName) return;
+    deleteMappingProfile(current.profileName);
+    setProfiles(loadMappingProfiles());
+    setStates(prev => prev.map((s, i) => (i === activeFile ? { ...s, profileName: null } : s)));
+  }, [current, activeFile]);
+
+  const handleConfirm = useCallback(() => {
+    onConfirm(states.map(s => ({ sheets: s.sheets, mapping: s.mapping })), mode);
+  }, [states, mode, onConfirm]);
+
+  const canImport = !missingAddress.some(Boolean) && !missingSheets.some(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="import-wizard-title">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="import-wizard-title" className="text-xl md:text-2xl font-black flex items-center gap-2">
+            <FileSpreadsheet className="w-6 h-6 text-blue-600" aria-hidden="true" />
+            Spalten zuordnen
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors duration-200"
+            type="button"
+            aria-label="Import abbrechen"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        {/* File tabs */}
+        {files.length > 1 && (
+          <div className="flex gap-2 px-6 pt-4 overflow-x-auto" role="tablist">
+            {files.map((file, i) => (
+              <button
+                key={`${file.name}-${i}`}
+                onClick={() => setActiveFile(i)}
+                className={`px-3 py-2 rounded-xl text-sm font-bold whitespace-nowrap transition-colors duration-200 ${
+                  i === activeFile ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                } ${missingAddress[i] || missingSheets[i] ? 'ring-2 ring-red-400' : ''}`}
+                type="button"
+                role="tab"
+                aria-selected={i === activeFile}
+              >
+                {file.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Sheet picker */}
+        {currentWorkbook.length > 1 && (
+          <fieldset className="px-6 pt-4">
+            <legend className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+              <Layers className="w-4 h-4" aria-hidden="true" /> Tabellenblätter
+            </legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {currentWorkbook.map(sheet => (
+                <label
+                  key={sheet.name}
+                  className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl border border-gray-200 hover:bg-blue-50/50 cursor-pointer text-sm"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={current?.sheets.includes(sheet.name) ?? false}
+                      onChange={() => handleToggleSheet(sheet.name)}
+                      className="w-4 h-4"
+                    />
+                    <span className="font-medium truncate">{sheet.name}</span>
+                  </span>
+                  <span className="text-gray-500 whitespace-nowrap">{sheet.rowCount.toLocaleString('de-DE')} Zeilen</span>
+                </label>
+              ))}
+            </div>
+            {missingSheets[activeFile] && (
+              <p className="mt-2 text-sm text-red-700">Bitte mindestens ein Tabellenblatt auswählen.</p>
+            )}
+          </fieldset>
+        )}
+
+        {/* Profile bar */}
+        <div className="px-6 pt-4 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+            <label htmlFor="mapping-profile" className="text-sm font-medium text-gray-700">
+              Profil:
+            </label>
+            <select
+              id="mapping-profile"
+              value={current?.profileName ?? ''}
+              onChange={handleApplyProfile}
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none min-h-[40px]"
+            >
+              <option value="">Automatischer Vorschlag</option>
+              {profiles.map(p => (
+                <option key={p.name} value={p.name}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            {current?.profileName && (
+              <button
+                onClick={handleDeleteProfile}
+                className="p-2 text-gray-600 hover:bg-red-50 hover:text-red-600 rounded-xl transition-colors duration-200 min-h-[40px] flex items-center justify-center"
+                type="button"
+                title="Profil löschen"
+                aria-label={`Profil ${current.profileName} löschen`}
+              >
+                <Trash2 className="w-4 h-4" aria-hidden="true" />
+              </button>
+            )}
+          </div>
+          {current?.profileName && (
+            <p className="text-sm text-emerald-700 flex items-center gap-1">
+              <Check className="w-4 h-4" aria-hidden="true" /> Profil „{current.profileName}“ wurde automatisch erkannt bzw. angewendet.
+            </p>
+          )}
+        </div>
+
+        {/* Mapping table */}
+        <div className="px-6 py-4 overflow-y-auto flex-1">
+          {currentHeaders.length === 0 ? (
+            <p className="text-sm text-gray-600">Keine Spaltenüberschriften gefunden.</p>
+          ) : (
+            currentHeaders.map(header => (
+              <MappingRow
+                key={header}
+                header={header}
+                field={current.mapping[header] ?? null}
+                onChange={handleFieldChange}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Warnings + save profile */}
+        <div className="px-6 pb-4 space-y-3">
+          {missingAddress[activeFile] && (
+            <p className="text-sm text-red-700">Bitte eine Spalte als „Adresse“ zuordnen – ohne Adresse werden alle Zeilen übersprungen.</p>
+          )}
+          {duplicateFields.length > 0 && (
+            <p className="text-sm text-amber-700">
+              Mehrfach zugeordnet: {duplicateFields.join(', ')} – es wird jeweils der erste nicht-leere Wert verwendet.
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              value={profileDraft}
+              onChange={e => setProfileDraft(e.target.value)}
+              placeholder="Profilname, z. B. „Lieferant A Wochenexport“"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none min-h-[40px]"
+              aria-label="Name für Zuordnungsprofil"
+            />
+            <button
+              onClick={handleSaveProfile}
+              disabled={!profileDraft.trim()}
+              className="px-4 py-2 rounded-xl text-sm font-bold bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 min-h-[40px] flex items-center justify-center gap-2"
+              type="button"
+            >
+              <Save className="w-4 h-4" aria-hidden="true" /> Als Profil speichern
+            </button>
+          </div>
+          {profileError && <p className="text-sm text-red-700">{profileError}</p>}
+        </div>
+
+        {/* Import mode */}
+        <fieldset className="px-6 pb-4">
+          <legend className="text-sm font-medium text-gray-700 mb-2">Importmodus</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {IMPORT_MODES.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-2 px-3 py-2 rounded-xl border cursor-pointer text-sm ${
+                  mode === option.value ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="import-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-bold block">{option.label}</span>
+                  <span className="text-gray-600">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onCancel}
+            className="px-4 md:px-6 py-3 rounded-2xl font-bold bg-gray-100 text-gray-800 hover:bg-gray-200 transition-colors duration-200 min-h-[44px]"
+            type="button"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canImport}
+            className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-4 md:px-6 py-3 rounded-2xl font-bold shadow-md disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-lg min-h-[44px] flex items-center justify-center gap-2"
+            type="button"
+          >
+            <Check className="w-5 h-5" aria-hidden="true" /> Import starten
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { ClipboardPaste, X } from 'lucide-react';
+import React, { memo, useCallback, useEffect, useMemo, useState, ChangeEvent } from 'react';
+import type { ColumnMapping, FileImportPlan, ImportField } from '@/lib/types';
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS } from '@/lib/mapping';
+import { CSV_SHEET_NAME } from '@/lib/csv';
+import {
+  looksLikeHeaderRow,
+  parseClipboardRows,
+  pastedTableToFile,
+  suggestPasteMapping,
+  toPastedTable,
+} from '@/lib/clipboard';
+
+/* ------------------------------ Types ------------------------------------- */
+interface PasteImportProps {
+  onConfirm: (file: File, plan: FileImportPlan) => void;
+  onCancel: () => void;
+}
+
+// Rows shown in the preview table
+const PREVIEW_ROWS = 5;
+
+/* --------------------------- Column Header -------------------------------- */
+const ColumnHeader = memo(({
+  header,
+  field,
+  onChange,
+}: {
+  header: string;
+  field: ImportField | null;
+  onChange: (header: string, field: ImportField | null) => void;
+}) => {
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLSelectElement>) => {
+      onChange(header, (e.target.value || null) as ImportField | null);
+    },
+    [onChange, header]
+  );
+
+  return (
+    <th className="p-2 align-top text-left font-medium min-w-[160px]">
+      <div className="text-xs text-gray-500 mb-1 truncate" title={header}>
+        {header}
+      </div>
+      <select
+        value={field ?? ''}
+        onChange={handleChange}
+        className={`w-full px-2 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+          field ? 'border-blue-200 bg-blue-50/50' : 'border-gray-200 bg-white text-gray-500'
+        }`}
+        aria-label={`Zielfeld für Spalte ${header}`}
+      >
+        <option value="">— ignorieren —</option>
+        {IMPORT_FIELDS.map(f => (
+          <option key={f} value={f}>
+            {IMPORT_FIELD_LABELS[f]}
+          </option>
+        ))}
+      </select>
+    </th>
+  );
+});
+
+/* ------------------------------- Main ------------------------------------- */
+export default function PasteImport({ onConfirm, onCancel }: PasteImportProps) {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [headerTouched, setHeaderTouched] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+
+  const rawRows = useMemo(() => parseClipboardRows(text), [text]);
+
+  // Guess the header row until the user decides
+  useEffect(() => {
+    if (!headerTouched && rawRows.length > 0) setHasHeader(looksLikeHeaderRow(rawRows[0]));
+  }, [rawRows, headerTouched]);
+
+  const table = useMemo(() => toPastedTable(rawRows, hasHeader), [rawRows, hasHeader]);
+
+  // New columns get a fresh suggestion, choices for unchanged columns stay
+  useEffect(() => {
+    const suggested = suggestPasteMapping(table, hasHeader);
+    setMapping(prev => {
+      const next: ColumnMapping = {};
+      for (const h of table.headers) next[h] = h in prev ? prev[h] : suggested[h];
+      return next;
+    });
+  }, [table, hasHeader]);
+
+  const handleToggleHeader = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setHeaderTouched(true);
+    setMapping({});
+    setHasHeader(e.target.checked);
+  }, []);
+
+  const handleFieldChange = useCallback((header: string, field: ImportField | null) => {
+    setMapping(prev => ({ ...prev, [header]: field }));
+  }, []);
+
+  const handleConfirm = useCallback(() => {
+    onConfirm(pastedTableToFile(table), { sheets: [CSV_SHEET_NAME], mapping });
+  }, [table, mapping, onConfirm]);
+
+  const missingAddress = !Object.values(mapping).includes('address');
+  const canImport = table.rows.length > 0 && !missingAddress;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="paste-import-title">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 id="paste-import-title" className="text-xl md:text-2xl font-black flex items-center gap-2">
+            <ClipboardPaste className="w-6 h-6 text-blue-600" aria-hidden="true" />
+            Aus Zwischenablage einfügen
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors duration-200"
+            type="button"
+            aria-label="Einfügen abbrechen"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 px-6 py-4 space-y-4">
+          <label htmlFor="paste-input" className="block text-sm font-medium text-gray-700">
+            Zeilen aus Excel kopieren und hier einfügen (Strg+V)
+          </label>
+          <textarea
+            id="paste-input"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            rows={6}
+            autoFocus
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:outline-none font-mono text-xs whitespace-pre"
+            placeholder={'Adresse\tRegion\tAnzahl der Homes\nHauptstraße 1, 4541 Adlwang\tAdlwang\t3'}
+          />
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input type="checkbox" checked={hasHeader} onChange={handleToggleHeader} className="w-4 h-4" />
+            Erste Zeile enthält Spaltenüberschriften
+          </label>
+
+          {table.headers.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">
+                Vorschau ({table.rows.length.toLocaleString('de-DE')} {table.rows.length === 1 ? 'Zeile' : 'Zeilen'})
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-2xl">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {table.headers.map(header => (
+                        <ColumnHeader
+                          key={header}
+                          header={header}
+                          field={mapping[header] ?? null}
+                          onChange={handleFieldChange}
+                        />
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                      <tr key={i} className="border-t border-gray-100">
+                        {row.map((cell, j) => (
+                          <td
+                            key={j}
+                            className={`p-2 align-top break-words max-w-[240px] ${mapping[table.headers[j]] ? '' : 'text-gray-400'}`}
+                          >
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {table.rows.length > PREVIEW_ROWS && (
+                <p className="mt-1 text-xs text-gray-500">
+                  … und {(table.rows.length - PREVIEW_ROWS).toLocaleString('de-DE')} weitere Zeilen
+                </p>
+              )}
+              {missingAddress && (
+                <p className="mt-2 text-sm text-red-700">Bitte eine Spalte dem Feld „Adresse“ zuordnen.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-col sm:flex-row justify-end gap-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onCancel}
+            className="px-4 md:px-6 py-3 rounded-2xl font-bold bg-gray-100 text-gray-800 hover:bg-gray-200 transition-colors duration-200 min-h-[44px]"
+            type="button"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canImport}
+            className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-4 md:px-6 py-3 rounded-2xl font-bold shadow-md disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-lg min-h-[44px]"
+            type="button"
+          >
+            {table.rows.length.toLocaleString('de-DE')} Zeilen importieren
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
-import { ChevronDown, ChevronRight, MapPin, Building, DollarSign, Edit3, Save, X } from 'lucide-react';
-import { Address } from '@/lib/types';
-import React, { memo, useMemo, useCallback, useState, KeyboardEvent } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, MapPin, Building, DollarSign, Edit3, Printer, Save, X } from 'lucide-react';
+import { Address, SortField, SortKey } from '@/lib/types';
+import React, { memo, useMemo, useCallback, useState, KeyboardEvent, MouseEvent } from 'react';
 
 /* ------------------------------- Enhanced Badges ------------------------------ */
 const StatusBadge = memo(({ status }: { status?: string }) => {
@@ -70,8 +70,8 @@ const NotesEditor = memo(({
   addressId 
 }: { 
   notes?: string; 
-  onUpdate: (id: number, patch: Partial<Address>) => void;
-  addressId: number;
+  onUpdate: (id: string, patch: Partial<Address>) => void;
+  addressId: string;
 }) => {
   const [editing, setEditing] = useState(false);
   const [draft, setDraft] = useState(notes || '');
@@ -164,7 +164,7 @@ const AddressRow = memo(({
   onUpdate 
 }: { 
   addr: Address; 
-  onUpdate: (id: number, patch: Partial<Address>) => void;
+  onUpdate: (id: string, patch: Partial<Address>) => void;
 }) => {
   return (
     <div className="p-4 md:p-6 border border-gray-100/50 hover:bg-white/40 rounded-2xl transition-colors duration-200 mb-4">
@@ -181,6 +181,11 @@ const AddressRow = memo(({
               ID: {addr.addressCode}
             </div>
           )}
+          {addr.sourceSheet && (
+            <div className="text-xs text-gray-500 mt-2 ml-2 bg-gray-100 px-2 py-1 rounded inline-block">
+              Blatt: {addr.sourceSheet}
+            </div>
+          )}
         </div>
         
         {/* Mobile Stats Grid */}
@@ -206,7 +211,7 @@ const AddressRow = memo(({
           <NotesEditor 
             notes={addr.notes} 
             onUpdate={onUpdate} 
-            addressId={addr.id as unknown as number} 
+            addressId={addr.id} 
           />
         </div>
       </div>
@@ -224,6 +229,11 @@ const AddressRow = memo(({
               ID: {addr.addressCode}
             </div>
           )}
+          {addr.sourceSheet && (
+            <div className="text-xs text-gray-500 mt-2 ml-2 bg-gray-100 px-2 py-1 rounded inline-block">
+              Blatt: {addr.sourceSheet}
+            </div>
+          )}
         </div>
 
         {/* Homes Count */}
@@ -251,7 +261,7 @@ const AddressRow = memo(({
           <NotesEditor 
             notes={addr.notes} 
             onUpdate={onUpdate} 
-            addressId={addr.id as unknown as number} 
+            addressId={addr.id} 
           />
         </div>
       </div>
@@ -260,16 +270,74 @@ const AddressRow = memo(({
 });
 
 /* ----------------------------- Responsive Table Header ----------------------------- */
-const TableHeader = memo(() => (
+// Click sorts by the column (again: reverse), shift-click adds it as a further sort key
+const SortableHeader = memo(({
+  field,
+  sortKeys,
+  onSort,
+  className,
+  children,
+}: {
+  field: SortField;
+  sortKeys: SortKey[];
+  onSort: (field: SortField, additive: boolean) => void;
+  className: string;
+  children: React.ReactNode;
+}) => {
+  const index = sortKeys.findIndex(k => k.field === field);
+  const key = index >= 0 ? sortKeys[index] : null;
+
+  const handleClick = useCallback(
+    (e: MouseEvent<HTMLButtonElement>) => onSort(field, e.shiftKey),
+    [onSort, field]
+  );
+
+  return (
+    <div className={className} aria-sort={index === 0 ? (key!.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button
+        onClick={handleClick}
+        className={`inline-flex items-center gap-1 rounded-lg hover:text-blue-700 transition-colors duration-200 ${key ? 'text-blue-700' : ''}`}
+        type="button"
+        title="Klicken zum Sortieren, Umschalt+Klick für weitere Sortierung"
+      >
+        {children}
+        {key && (
+          <>
+            {key.direction === 'asc' ? <ArrowUp className="w-3.5 h-3.5" aria-hidden="true" /> : <ArrowDown className="w-3.5 h-3.5" aria-hidden="true" />}
+            {sortKeys.length > 1 && <span className="text-xs">{index + 1}</span>}
+          </>
+        )}
+      </button>
+    </div>
+  );
+});
+
+const TableHeader = memo(({
+  sortKeys,
+  onSort,
+}: {
+  sortKeys: SortKey[];
+  onSort: (field: SortField, additive: boolean) => void;
+}) => (
   <div className="hidden lg:grid lg:grid-cols-12 gap-4 text-sm font-bold text-gray-700 mb-6 pb-4 border-b border-gray-200/50">
-    <div className="col-span-4">Adresse & Anbieter</div>
-    <div className="col-span-1 text-center">Homes</div>
-    <div className="col-span-1 text-center">Status</div>
-    <div className="col-span-1 text-center">Vertrag</div>
-    <div className="col-span-1 text-center flex items-center justify-center gap-1">
+    <SortableHeader field="address" sortKeys={sortKeys} onSort={onSort} className="col-span-4">
+      Adresse & Anbieter
+    </SortableHeader>
+    <SortableHeader field="homes" sortKeys={sortKeys} onSort={onSort} className="col-span-1 text-center">
+      Homes
+    </SortableHeader>
+    <SortableHeader field="status" sortKeys={sortKeys} onSort={onSort} className="col-span-1 text-center">
+      Status
+    </SortableHeader>
+    <SortableHeader field="contractStatus" sortKeys={sortKeys} onSort={onSort} className="col-span-1 text-center">
+      Vertrag
+    </SortableHeader>
+    <SortableHeader field="price" sortKeys={sortKeys} onSort={onSort} className="col-span-1 text-center">
       <DollarSign className="w-4 h-4" aria-hidden="true" /> Preis
-    </div>
-    <div className="col-span-4">Notizen</div>
+    </SortableHeader>
+    <SortableHeader field="notes" sortKeys={sortKeys} onSort={onSort} className="col-span-4">
+      Notizen
+    </SortableHeader>
   </div>
 ));
 
@@ -376,17 +444,51 @@ const RegionHeader = memo(({
   );
 });
 
+/* ------------------------------ Group Toolbar ------------------------------ */
+const GroupToolbar = memo(({
+  region,
+  rows,
+  onPrintWalkList
+}: {
+  region: string;
+  rows: Address[];
+  onPrintWalkList: (region: string, rows: Address[]) => void;
+}) => {
+  const handlePrint = useCallback(() => {
+    onPrintWalkList(region, rows);
+  }, [onPrintWalkList, region, rows]);
+
+  return (
+    <div className="flex justify-end mb-4">
+      <button
+        onClick={handlePrint}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors duration-200 min-h-[44px]"
+        type="button"
+        aria-label={`Laufliste für ${region} drucken`}
+      >
+        <Printer className="w-4 h-4" aria-hidden="true" /> Laufliste drucken
+      </button>
+    </div>
+  );
+});
+
 /* ------------------------------- Main Export ------------------------------- */
 export default function RegionList({
   grouped,
   expanded,
+  sortKeys,
+  onSort,
   onToggle,
-  onUpdate
+  onUpdate,
+  onPrintWalkList
 }: {
   grouped: Record<string, Address[]>;
   expanded: Set<string>;
+  sortKeys: SortKey[];
+  onSort: (field: SortField, additive: boolean) => void;
   onToggle: (region: string) => void;
-  onUpdate: (id: number, patch: Partial<Address>) => void;
+  onUpdate: (id: string, patch: Partial<Address>) => void;
+  onPrintWalkList?: (region: string, rows: Address[]) => void;
 }) {
   const groupedEntries = useMemo(() => Object.entries(grouped), [grouped]);
 
@@ -411,11 +513,12 @@ export default function RegionList({
                 role="region"
                 aria-label={`Adressen in ${region}`}
               >
-                <TableHeader />
+                {onPrintWalkList && <GroupToolbar region={region} rows={rows} onPrintWalkList={onPrintWalkList} />}
+                <TableHeader sortKeys={sortKeys} onSort={onSort} />
                 <div className="space-y-2">
                   {rows.map((addr) => (
                     <AddressRow 
-                      key={addr.id as unknown as React.Key}
+                      key={addr.id}
                       addr={addr}
                       onUpdate={onUpdate}
                     />
@@ -0,0 +1,242 @@
+// lib/calendar.ts
+import type { Address } from './types';
+import { hash53 } from './ids';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Calendar day without time zone; month is 1-based
+export type CalendarDate = { year: number; month: number; day: number };
+
+export type CalendarEvent = {
+  uid: string;
+  start: CalendarDate;
+  end: CalendarDate; // inclusive last day
+  summary: string;
+  description: string;
+  category: string;
+};
+
+export type CalendarBuild = {
+  events: CalendarEvent[];
+  unparsedDates: string[]; // distinct raw values that could not be read as a date
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                Date parsing                                */
+/* -------------------------------------------------------------------------- */
+
+const DAY_MS = 86_400_000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+function makeDate(year: number, month: number, day: number): CalendarDate | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+function fromTime(ms: number): CalendarDate {
+  const d = new Date(ms);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * Read the date formats found in supplier files: "31.05.2024", "2024-05-31"
+ * (with or without time), "5/31/24" as written by SheetJS, and Excel serial
+ * numbers such as "45443". Slash dates are month-first unless the first part
+ * cannot be a month.
+ */
+export function parseCalendarDate(raw: string | undefined): CalendarDate | null {
+  const s = (raw ?? '').trim();
+  if (!s) return null;
+
+  let m = s.match(/^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{2}|\d{4})$/);
+  if (m) return makeDate(+m[3], +m[2], +m[1]);
+
+  m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (m) return makeDate(+m[1], +m[2], +m[3]);
+
+  m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (m) return +m[1] > 12 ? makeDate(+m[3], +m[2], +m[1]) : makeDate(+m[3], +m[1], +m[2]);
+
+  // Excel serial day numbers (1955 .. 2118)
+  if (/^\d{5}(\.\d+)?$/.test(s)) {
+    const serial = Math.floor(parseFloat(s));
+    if (serial >= 20_000 && serial <= 80_000) return fromTime(EXCEL_EPOCH + serial * DAY_MS);
+  }
+
+  return null;
+}
+
+function dateKey(d: CalendarDate): string {
+  return `${d.year}${String(d.month).padStart(2, '0')}${String(d.day).padStart(2, '0')}`;
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return dateKey(a).localeCompare(dateKey(b));
+}
+
+function formatGermanDate(d: CalendarDate): string {
+  return `${String(d.day).padStart(2, '0')}.${String(d.month).padStart(2, '0')}.${d.year}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Events                                   */
+/* -------------------------------------------------------------------------- */
+
+// Completion events list at most this many addresses in their description
+const MAX_LISTED_ADDRESSES = 50;
+
+/**
+ * One event per group and D2D window (a group usually shares a single window)
+ * plus one per group and planned completion date that is not built yet.
+ */
+export function buildCalendarEvents(groups: Record<string, Address[]>): CalendarBuild {
+  const events: CalendarEvent[] = [];
+  const unparsed = new Set<string>();
+
+  const parse = (raw: string | undefined) => {
+    const date = parseCalendarDate(raw);
+    if (!date && raw?.trim()) unparsed.add(raw.trim());
+    return date;
+  };
+
+  for (const [group, rows] of Object.entries(groups)) {
+    const windows = new Map<string, { start: CalendarDate; end: CalendarDate; rows: Address[] }>();
+    const completions = new Map<string, { date: CalendarDate; rows: Address[] }>();
+
+    for (const a of rows) {
+      const start = parse(a.d2dStart);
+      const end = parse(a.d2dEnd);
+      if (start || end) {
+        // Open-ended windows become single-day events on the known date
+        let from = start ?? end!;
+        let to = end ?? start!;
+        if (compareDates(to, from) < 0) [from, to] = [to, from];
+        const key = `${dateKey(from)}-${dateKey(to)}`;
+        (windows.get(key) ?? windows.set(key, { start: from, end: to, rows: [] }).get(key)!).rows.push(a);
+      }
+
+      if (!a.completionDone) {
+        const planned = parse(a.completionPlanned);
+        if (planned) {
+          const key = dateKey(planned);
+          (completions.get(key) ?? completions.set(key, { date: planned, rows: [] }).get(key)!).rows.push(a);
+        }
+      }
+    }
+
+    for (const [key, w] of windows) {
+      const homes = w.rows.reduce((sum, a) => sum + (a.homes ?? 0), 0);
+      const withContract = w.rows.filter(a => (a.contractStatus ?? 0) > 0).length;
+      events.push({
+        uid: `d2d-${hash53(`${group}|${key}`)}@address-manager-pro`,
+        start: w.start,
+        end: w.end,
+        summary: `D2D-Vertrieb ${group}`,
+        description: [
+          `Zeitraum: ${formatGermanDate(w.start)} – ${formatGermanDate(w.end)}`,
+          `Adressen: ${w.rows.length}`,
+          `Homes: ${homes}`,
+          `Mit Vertrag: ${withContract}`,
+        ].join('\n'),
+        category: 'D2D-Vertrieb',
+      });
+    }
+
+    for (const [key, c] of completions) {
+      const listed = c.rows.slice(0, MAX_LISTED_ADDRESSES).map(a => `- ${a.address}`);
+      if (c.rows.length > MAX_LISTED_ADDRESSES) listed.push(`… und ${c.rows.length - MAX_LISTED_ADDRESSES} weitere`);
+      events.push({
+        uid: `bau-${hash53(`${group}|${key}`)}@address-manager-pro`,
+        start: c.date,
+        end: c.date,
+        summary: `Fertigstellung Bau ${group} (${c.rows.length} ${c.rows.length === 1 ? 'Adresse' : 'Adressen'})`,
+        description: listed.join('\n'),
+        category: 'Fertigstellung Bau',
+      });
+    }
+  }
+
+  events.sort((a, b) => compareDates(a.start, b.start) || a.summary.localeCompare(b.summary, 'de'));
+  return { events, unparsedDates: [...unparsed] };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               iCalendar text                               */
+/* -------------------------------------------------------------------------- */
+
+// RFC 5545 3.3.11: backslash, semicolon, comma and newlines are escaped
+function escapeText(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 3.1: lines longer than 75 octets are folded, continuation lines start with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74; // the leading space counts
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// All-day events: DTEND is the exclusive day after the last day
+function nextDay(d: CalendarDate): CalendarDate {
+  return fromTime(Date.UTC(d.year, d.month - 1, d.day) + DAY_MS);
+}
+
+export function toICS(events: CalendarEvent[], calendarName = 'Address Manager Pro'): string {
+  const stamp = formatUtcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Address Manager Pro//Kalenderexport//DE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const e of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateKey(e.start)}`,
+      `DTEND;VALUE=DATE:${dateKey(nextDay(e.end))}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      `DESCRIPTION:${escapeText(e.description)}`,
+      `CATEGORIES:${escapeText(e.category)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function buildICSBlob(groups: Record<string, Address[]>): CalendarBuild & { blob: Blob } {
+  const build = buildCalendarEvents(groups);
+  if (build.events.length === 0) throw new Error('Keine auswertbaren D2D- oder Fertigstellungstermine gefunden.');
+  return { ...build, blob: new Blob([toICS(build.events)], { type: 'text/calendar;charset=utf-8' }) };
+}
@@ -0,0 +1,88 @@
+// lib/clipboard.ts
+import type { ColumnMapping } from './types';
+import { parseDelimitedText, uniqueHeaders } from './csv';
+import { suggestColumnMapping } from './mapping';
+import { splitStreetAndNumber } from './street';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Name of the in-memory file a paste is imported as; shows up as sourceFile
+export const CLIPBOARD_FILE_NAME = 'Zwischenablage.tsv';
+
+// A first row with at least this many recognized headers counts as header row
+const MIN_HEADER_MATCHES = 2;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type PastedTable = {
+  headers: string[]; // real or generated ("Spalte 1", ...), unique
+  rows: string[][]; // data rows only, padded to headers.length
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  Parsing                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Cells copied from Excel or Google Sheets arrive tab-separated; cells with
+ * line breaks are quoted. A single column without tabs is still one row per line.
+ */
+export function parseClipboardRows(text: string): string[][] {
+  return parseDelimitedText(text.replace(/^\uFEFF/, ''), '\t');
+}
+
+export function looksLikeHeaderRow(row: string[]): boolean {
+  const mapping = suggestColumnMapping(uniqueHeaders(row));
+  return Object.values(mapping).filter(Boolean).length >= MIN_HEADER_MATCHES;
+}
+
+export function toPastedTable(raw: string[][], hasHeader: boolean): PastedTable {
+  const width = raw.reduce((max, row) => Math.max(max, row.length), 0);
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] ?? '');
+
+  if (hasHeader && raw.length > 0) {
+    const header = pad(raw[0]).map((h, i) => h.trim() || `Spalte ${i + 1}`);
+    return { headers: uniqueHeaders(header), rows: raw.slice(1).map(pad) };
+  }
+  return { headers: Array.from({ length: width }, (_, i) => `Spalte ${i + 1}`), rows: raw.map(pad) };
+}
+
+/**
+ * Mapping for the preview: header names as in the file wizard; without
+ * headers only the address column is guessed, from street + house number cells.
+ */
+export function suggestPasteMapping(table: PastedTable, hasHeader: boolean): ColumnMapping {
+  if (hasHeader) return suggestColumnMapping(table.headers);
+
+  const mapping: ColumnMapping = Object.fromEntries(table.headers.map(h => [h, null]));
+  const sample = table.rows.slice(0, 50);
+  let best = -1;
+  let bestScore = 0;
+  table.headers.forEach((_, i) => {
+    const score = sample.filter(row => /[a-zäöüß]/i.test(row[i]) && splitStreetAndNumber(row[i]).houseNumber).length;
+    if (score > bestScore) [best, bestScore] = [i, score];
+  });
+  if (best >= 0 && bestScore >= Math.ceil(sample.length / 2)) mapping[table.headers[best]] = 'address';
+  return mapping;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 File build                                 */
+/* -------------------------------------------------------------------------- */
+
+function quoteCell(cell: string): string {
+  return /[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * The pasted table as a TSV file, so it runs through the regular streaming
+ * import (same createAddress, dedupe, validation and batch history).
+ */
+export function pastedTableToFile(table: PastedTable): File {
+  const lines = [table.headers, ...table.rows].map(row => row.map(quoteCell).join('\t'));
+  return new File([lines.join('\r\n')], CLIPBOARD_FILE_NAME, { type: 'text/tab-separated-values' });
+}
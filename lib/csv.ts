@@ -0,0 +1,329 @@
+// lib/csv.ts
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// SheetJS names the only sheet of a text file like this; keep it so plans and
+// sourceSheet values look the same as before streaming was added.
+export const CSV_SHEET_NAME = 'Sheet1';
+
+const CANDIDATE_DELIMITERS = [';', ',', '\t', '|'] as const;
+
+// Enough to see the header and a few hundred rows for detection and estimates
+const SAMPLE_BYTES = 64 * 1024;
+
+// Rows handed to the importer per yield
+const DEFAULT_BATCH_SIZE = 500;
+
+export type CSVRecord = {
+  values: Record<string, string>;
+  rowNumber: number; // 1-based record number, header = 1
+};
+
+export type CSVBatch = {
+  records: CSVRecord[];
+  bytesRead: number;
+};
+
+type Encoding = 'utf-8' | 'windows-1252' | 'utf-16le';
+
+/* -------------------------------------------------------------------------- */
+/*                                 Detection                                  */
+/* -------------------------------------------------------------------------- */
+
+export function isDelimitedTextFile(file: File): boolean {
+  return /\.(csv|tsv|txt)$/i.test(file.name) || file.type === 'text/csv';
+}
+
+// .tsv files (also the pasted clipboard table) are tab-separated by definition;
+// a header cell with a comma must not make the detection pick ','
+function declaredDelimiter(file: File): string | null {
+  return /\.tsv$/i.test(file.name) || file.type === 'text/tab-separated-values' ? '\t' : null;
+}
+
+function detectBOM(bytes: Uint8Array): { encoding: Encoding; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  return null;
+}
+
+/**
+ * Pick the delimiter that occurs most often (outside quotes) in the header
+ * line. Semicolon wins ties because German Excel writes it by default.
+ */
+export function detectDelimiter(sample: string): string {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+
+  let best: string = CANDIDATE_DELIMITERS[0];
+  for (const [d, n] of counts) if (n > counts.get(best)!) best = d;
+  return best;
+}
+
+// Bytes at the end that start a UTF-8 sequence which continues in the next chunk
+function incompleteUtf8Tail(bytes: Uint8Array): number {
+  for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+    const b = bytes[bytes.length - back];
+    if ((b & 0xc0) === 0x80) continue; // continuation byte, keep looking for the lead
+    const needed = b >= 0xf0 ? 4 : b >= 0xe0 ? 3 : b >= 0xc0 ? 2 : 1;
+    return needed > back ? back : 0;
+  }
+  return 0;
+}
+
+/**
+ * Decode chunks of unknown encoding. UTF-8 is tried strictly first; on the
+ * first invalid sequence the rest is read as Windows-1252 (old Excel CSVs).
+ * Both are ASCII compatible, so text decoded before the switch stays valid.
+ */
+function createChunkDecoder(initial: Encoding | null) {
+  let encoding: Encoding = initial ?? 'utf-8';
+  let strict = initial === null;
+  let decoder = new TextDecoder(encoding, { fatal: strict });
+  let carry = new Uint8Array(0);
+
+  return {
+    decode(chunk: Uint8Array): string {
+      let bytes = chunk;
+      if (carry.length) {
+        bytes = new Uint8Array(carry.length + chunk.length);
+        bytes.set(carry);
+        bytes.set(chunk, carry.length);
+        carry = new Uint8Array(0);
+      }
+
+      if (!strict) return decoder.decode(bytes, { stream: true });
+
+      const tail = incompleteUtf8Tail(bytes);
+      const complete = tail ? bytes.subarray(0, bytes.length - tail) : bytes;
+      try {
+        const text = decoder.decode(complete);
+        carry = bytes.slice(bytes.length - tail);
+        return text;
+      } catch {
+        console.log('CSV is not valid UTF-8, falling back to Windows-1252');
+        encoding = 'windows-1252';
+        strict = false;
+        decoder = new TextDecoder(encoding);
+        return decoder.decode(bytes, { stream: true });
+      }
+    },
+    flush(): string {
+      const rest = carry;
+      carry = new Uint8Array(0);
+      if (!strict) return decoder.decode();
+      try {
+        return decoder.decode(rest);
+      } catch {
+        return new TextDecoder('windows-1252').decode(rest);
+      }
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Parser                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * RFC 4180 style parser that keeps its state between chunks, so quoted
+ * fields with delimiters or line breaks may span chunk boundaries.
+ */
+function createRowParser(delimiter: string) {
+  let field = '';
+  let row: string[] = [];
+  let rows: string[][] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw '"' inside quotes, next char decides
+  let skipLF = false; // previous chunk ended with '\r'
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  return {
+    push(text: string): string[][] {
+      for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (skipLF) {
+          skipLF = false;
+          if (ch === '\n') continue;
+        }
+
+        if (quotePending) {
+          quotePending = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false; // closing quote; handle ch below
+        }
+
+        if (inQuotes) {
+          if (ch === '"') quotePending = true;
+          else field += ch;
+          continue;
+        }
+
+        if (ch === '"' && field === '') inQuotes = true;
+        else if (ch === delimiter) endField();
+        else if (ch === '\n') endRow();
+        else if (ch === '\r') {
+          endRow();
+          skipLF = true;
+        } else field += ch;
+      }
+
+      const done = rows;
+      rows = [];
+      return done;
+    },
+    flush(): string[][] {
+      if (field !== '' || row.length > 0) endRow();
+      const done = rows;
+      rows = [];
+      return done;
+    },
+  };
+}
+
+// Same keys SheetJS would produce: duplicates get _1, _2, empty headers __EMPTY
+export function uniqueHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map(h => {
+    const base = h.trim() || '__EMPTY';
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return n === 0 ? base : `${base}_${n}`;
+  });
+}
+
+function isBlankRow(cells: string[]): boolean {
+  return cells.every(c => c.trim() === '');
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Parse text that is already in memory (e.g. pasted), blank rows dropped */
+export function parseDelimitedText(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const parser = createRowParser(delimiter);
+  return [...parser.push(text), ...parser.flush()].filter(row => !isBlankRow(row));
+}
+
+/**
+ * Header and estimated row count from the first bytes of the file only.
+ * The estimate extrapolates the average line length of the sample.
+ */
+export async function readCSVHeader(file: File): Promise<{ headers: string[]; rowCount: number }> {
+  const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const bom = detectBOM(bytes);
+  const decoder = createChunkDecoder(bom?.encoding ?? null);
+  const text = decoder.decode(bom ? bytes.subarray(bom.length) : bytes);
+
+  const parser = createRowParser(declaredDelimiter(file) ?? detectDelimiter(text));
+  const wholeFile = file.size <= SAMPLE_BYTES;
+  const rows = parser.push(text);
+  if (wholeFile) rows.push(...parser.push(decoder.flush()), ...parser.flush());
+
+  const [header = []] = rows;
+  const headers = header.map(h => h.trim()).filter(h => h !== '');
+  const rowCount = wholeFile
+    ? rows.slice(1).filter(r => !isBlankRow(r)).length
+    : Math.max(0, Math.round((file.size / bytes.length) * Math.max(1, rows.length)) - 1);
+
+  return { headers, rowCount };
+}
+
+/**
+ * Stream the records of a delimited text file in batches. Only one chunk of
+ * the file plus one batch of rows is held in memory at any time.
+ */
+export async function* readCSVRecords(
+  file: File,
+  { batchSize = DEFAULT_BATCH_SIZE }: { batchSize?: number } = {}
+): AsyncGenerator<CSVBatch> {
+  const reader = file.stream().getReader();
+  let decoder: ReturnType<typeof createChunkDecoder> | null = null;
+  let parser: ReturnType<typeof createRowParser> | null = null;
+  let headers: string[] | null = null;
+  let rowNumber = 0;
+  let bytesRead = 0;
+  let records: CSVRecord[] = [];
+  let headerText = ''; // decoded text held back until the header line is complete
+  const delimiter = declaredDelimiter(file);
+
+  const collect = (rows: string[][]) => {
+    for (const cells of rows) {
+      rowNumber++;
+      if (!headers) {
+        headers = uniqueHeaders(cells);
+        continue;
+      }
+      if (isBlankRow(cells)) continue;
+      const values: Record<string, string> = {};
+      for (let c = 0; c < headers.length; c++) values[headers[c]] = cells[c] ?? '';
+      records.push({ values, rowNumber });
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let chunk = value;
+      bytesRead += chunk.length;
+
+      if (!decoder) {
+        const bom = detectBOM(chunk);
+        decoder = createChunkDecoder(bom?.encoding ?? null);
+        if (bom) chunk = chunk.subarray(bom.length);
+      }
+
+      const text = decoder.decode(chunk);
+      if (!parser) {
+        // The delimiter is detected on the full header line
+        headerText += text;
+        if (!/[\r\n]/.test(headerText)) continue;
+        parser = createRowParser(delimiter ?? detectDelimiter(headerText));
+        collect(parser.push(headerText));
+        headerText = '';
+      } else {
+        collect(parser.push(text));
+      }
+
+      if (records.length >= batchSize) {
+        yield { records, bytesRead };
+        records = [];
+      }
+    }
+
+    if (decoder) {
+      const rest = headerText + decoder.flush();
+      parser ??= createRowParser(delimiter ?? detectDelimiter(rest));
+      collect(parser.push(rest));
+      collect(parser.flush());
+    }
+    if (records.length) yield { records, bytesRead };
+  } finally {
+    // Also stops reading when the consumer breaks out early (e.g. on abort)
+    reader.cancel().catch(() => undefined);
+  }
+}
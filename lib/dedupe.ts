@@ -0,0 +1,160 @@
+// lib/dedupe.ts
+import type { Address } from './types';
+import { assignField } from './schema';
+import { foldText, normalizeHouseNumber, normalizeStreet, splitStreetAndNumber } from './street';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Pairs at or above this score are held back for manual review
+export const LIKELY_DUPLICATE_SCORE = 0.85;
+
+// Street names share the score with the PLZ/city part
+const STREET_WEIGHT = 0.8;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Similarity                                 */
+/* -------------------------------------------------------------------------- */
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const max = Math.max(a.length, b.length);
+  return max === 0 ? 1 : 1 - levenshtein(a, b) / max;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Indexed detector                              */
+/* -------------------------------------------------------------------------- */
+
+type Entry = {
+  address: Address;
+  street: string;
+  rest: string;
+};
+
+function restKey(rest: string): string {
+  return foldText(rest).replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Candidates are only compared inside a block of same house number + PLZ,
+// which keeps lookups close to O(1) even for 78K+ addresses.
+function blockKey(houseNumber: string, rest: string): string {
+  const plz = rest.match(/\b\d{4}\b/)?.[0] ?? rest;
+  return `${normalizeHouseNumber(houseNumber)}|${plz}`;
+}
+
+function toEntry(address: Address): { key: string; entry: Entry } {
+  const { street, houseNumber, rest } = splitStreetAndNumber(address.address || '');
+  const normalizedRest = restKey(rest);
+  return {
+    key: blockKey(houseNumber, normalizedRest),
+    entry: { address, street: normalizeStreet(street), rest: normalizedRest },
+  };
+}
+
+/**
+ * Score near-duplicates ("Hauptstraße 5" vs "Hauptstr. 5", "5a" vs "5 a").
+ * Exact duplicates are expected to be filtered out before this runs.
+ */
+export function createFuzzyDuplicateDetector(existing: Address[]) {
+  const blocks = new Map<string, Entry[]>();
+
+  const add = (address: Address) => {
+    const { key, entry } = toEntry(address);
+    (blocks.get(key) ?? blocks.set(key, []).get(key)!).push(entry);
+  };
+
+  for (const a of existing) add(a);
+
+  return {
+    findMatch(address: Address): { match: Address; score: number } | null {
+      const { key, entry } = toEntry(address);
+      const block = blocks.get(key);
+      if (!block) return null;
+
+      let best: { match: Address; score: number } | null = null;
+      for (const candidate of block) {
+        const streetScore = stringSimilarity(entry.street, candidate.street);
+        const restScore = entry.rest === candidate.rest ? 1 : stringSimilarity(entry.rest, candidate.rest);
+        const score = STREET_WEIGHT * streetScore + (1 - STREET_WEIGHT) * restScore;
+        if (score >= LIKELY_DUPLICATE_SCORE && (!best || score > best.score)) {
+          best = { match: candidate.address, score: Math.round(score * 100) / 100 };
+        }
+      }
+      return best;
+    },
+    add,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Merging                                  */
+/* -------------------------------------------------------------------------- */
+
+// Where a row came from and how it was edited - stays with the existing row on every
+// resolution, otherwise rolling back the incoming row's import would delete it
+const TRACKING_FIELDS = new Set<keyof Address>([
+  'batchId',
+  'sourceFile',
+  'sourceSheet',
+  'sourceRow',
+  'imported',
+  'editedAt',
+  'previousValues',
+]);
+
+/**
+ * Combine two records of the same address: existing values win, empty fields
+ * are filled from the incoming row and both notes are kept.
+ */
+export function mergeAddresses(existing: Address, incoming: Address): Address {
+  const merged: Address = { ...existing };
+
+  for (const key of Object.keys(incoming) as (keyof Address)[]) {
+    if (key === 'id' || key === 'notes' || TRACKING_FIELDS.has(key)) continue;
+    const current = merged[key];
+    const next = incoming[key];
+    const isEmpty = current === undefined || current === null || current === '' || current === 0;
+    if (isEmpty && next !== undefined && next !== '') assignField(merged, key, next);
+  }
+
+  merged.completionDone = Boolean(existing.completionDone || incoming.completionDone);
+
+  const notes = [existing.notes, incoming.notes].map(n => (n ?? '').trim()).filter(Boolean);
+  merged.notes = [...new Set(notes)].join(' | ');
+
+  return merged;
+}
+
+/**
+ * The incoming record's values under the existing row's ID, provenance and
+ * change tracking; the existing notes win when there are any.
+ */
+export function replaceAddressData(existing: Address, incoming: Address): Address {
+  const replaced: Address = { ...incoming, id: existing.id, notes: existing.notes || incoming.notes };
+  for (const key of TRACKING_FIELDS) {
+    if (existing[key] === undefined) delete replaced[key];
+    else assignField(replaced, key, existing[key]);
+  }
+  return replaced;
+}
@@ -0,0 +1,82 @@
+// lib/delta.ts
+import type { Address } from './types';
+import { EXPORT_COLUMNS, exportLabelOf, formatProperty, formatSchemaRow } from './schema';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+export const CHANGED_FIELDS_HEADER = 'Geänderte Felder';
+
+// Bookkeeping fields that are never reported as a change
+const UNTRACKED: ReadonlySet<keyof Address> = new Set<keyof Address>(['id', 'editedAt', 'previousValues']);
+
+/* -------------------------------------------------------------------------- */
+/*                               Change tracking                              */
+/* -------------------------------------------------------------------------- */
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' || typeof b === 'string') return String(a ?? '') === String(b ?? '');
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Apply a manual edit and remember each field's value from before the first
+ * edit since the baseline. Editing a field back to that value drops it again,
+ * so a row only counts as changed while it really differs.
+ */
+export function applyEdit(address: Address, patch: Partial<Address>): Address {
+  const previous = { ...address.previousValues };
+
+  for (const key of Object.keys(patch) as (keyof Address)[]) {
+    if (UNTRACKED.has(key)) continue;
+    if (!(key in previous)) {
+      if (!sameValue(address[key], patch[key])) previous[key] = address[key];
+    } else if (sameValue(previous[key], patch[key])) {
+      delete previous[key];
+    }
+  }
+
+  const next: Address = { ...address, ...patch };
+  if (Object.keys(previous).length > 0) next.previousValues = previous;
+  else delete next.previousValues;
+  return next;
+}
+
+// New baseline after a delta export: the row counts as unchanged again
+export function clearChanges(address: Address): Address {
+  const { previousValues: _previous, ...rest } = address;
+  return rest;
+}
+
+export function isChanged(address: Address): boolean {
+  return Boolean(address.previousValues && Object.keys(address.previousValues).length > 0);
+}
+
+export function changedFields(address: Address): (keyof Address)[] {
+  return Object.keys(address.previousValues ?? {}) as (keyof Address)[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Delta export                                */
+/* -------------------------------------------------------------------------- */
+
+const previousHeader = (property: keyof Address) => `${exportLabelOf(property)} (vorher)`;
+
+/**
+ * Extra columns of a delta export: the changed-fields list plus one
+ * "(vorher)" column per field that changed in any of the rows.
+ */
+export function deltaColumns(addresses: Address[], columns: readonly string[] = EXPORT_COLUMNS): string[] {
+  const fields = new Set<keyof Address>();
+  for (const a of addresses) for (const f of changedFields(a)) fields.add(f);
+  return [...columns, CHANGED_FIELDS_HEADER, ...[...fields].map(previousHeader)];
+}
+
+export function toDeltaRow(address: Address): Record<string, string | number> {
+  const row = formatSchemaRow(address);
+  const fields = changedFields(address);
+  row[CHANGED_FIELDS_HEADER] = fields.map(exportLabelOf).join(', ');
+  for (const f of fields) row[previousHeader(f)] = formatProperty(f, address.previousValues![f]);
+  return row;
+}
@@ -0,0 +1,26 @@
+// lib/download.ts
+
+/**
+ * Trigger a browser download for the given blob. The object URL is revoked
+ * right after the click so large exports don't stay in memory.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Date stamp used in export file names, e.g. 2024-05-31 */
+export function fileDateStamp(date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
@@ -1,4 +1,31 @@
-import type { Address } from './types';
+import type {
+  Address,
+  ColumnMapping,
+  DuplicateCandidate,
+  FileImportPlan,
+  ImportBatch,
+  ImportField,
+  ImportIssue,
+  ImportMode,
+  FileImportResult,
+  ImportProgress,
+  SheetInfo,
+} from './types';
+import { createFuzzyDuplicateDetector } from './dedupe';
+import { RowIssue, validateRow } from './validation';
+import { addressBaseId, createIdAllocator } from './ids';
+import { CSV_SHEET_NAME, isDelimitedTextFile, readCSVHeader, readCSVRecords } from './csv';
+import {
+  assignField,
+  clearParseCaches,
+  EXPORT_COLUMNS,
+  FIELD_ALIASES,
+  type FieldLookup,
+  formatSchemaRow,
+  getFieldValue,
+  parseSchemaRow,
+  providerOwnedSources,
+} from './schema';
 
 /* -------------------------------------------------------------------------- */
 /*                               XLSX lazy import                             */
@@ -17,84 +44,30 @@ async function getXLSX() {
 /*                    Updated Field Mappings for Your Files                   */
 /* -------------------------------------------------------------------------- */
 
-const FIELD_MAPPINGS = {
-  address: ['Adresse', 'Address'],
-  addressCode: ['adrcd-subcd', 'ID'],
-  region: ['Region'],
-  ano: ['ANO', 'Provider'],
-  status: ['Status'],
-  homes: ['Anzahl der Homes', 'Homes'],
-  // Your file has separate contract columns - we'll combine them
-  l1OfferSent: ['L1-Angebot gesendet'],
-  salesContract: ['Verkaufsauftrag vorhanden'],
-  // Fallback for files with combined column
-  contractStatus: ['Vertrag auf Adresse vorhanden oder L1-Angebot gesendet', 'Contract'],
-  price: ['Preis Standardprodukt (€)', 'Price'],
-  provisionCategory: ['Provisions-Kategorie'],
-  buildingCompany: ['Baufirma'],
-  kgNumber: ['KG Nummer'],
-  completionPlanned: ['Fertigstellung Bau (aktueller Plan)'],
-  completionDone: ['Fertigstellung Bau erfolgt'],
-  d2dStart: ['D2D-Vertrieb Start'],
-  d2dEnd: ['D2D-Vertrieb Ende'],
-  outdoorFee: ['Outdoor-Pauschale vorhanden'],
-  notes: ['Notes'],
-} as const;
-
-type MappingKey = keyof typeof FIELD_MAPPINGS;
+// Header aliases per field, generated from the shared column schema
+export const FIELD_MAPPINGS: FieldLookup = FIELD_ALIASES;
+
+/**
+ * Turn a user-confirmed column mapping into the header lookup used by
+ * createAddress. Without a mapping the built-in FIELD_MAPPINGS apply.
+ * With a mapping only the chosen headers are read, so a column the user
+ * set to "ignore" is never picked up through a default alias.
+ */
+function resolveFieldLookup(mapping?: ColumnMapping): FieldLookup {
+  if (!mapping) return FIELD_MAPPINGS;
+
+  const lookup = {} as Record<ImportField, string[]>;
+  for (const field of Object.keys(FIELD_MAPPINGS) as ImportField[]) lookup[field] = [];
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field) lookup[field].push(header);
+  }
+  return lookup;
+}
 
 /* -------------------------------------------------------------------------- */
 /*                                 Utilities                                  */
 /* -------------------------------------------------------------------------- */
 
-function getFieldValue(row: Record<string, unknown>, fieldNames: readonly string[]): string {
-  for (const name of fieldNames) {
-    const v = row[name as keyof typeof row];
-    if (v !== undefined && v !== null && String(v).trim() !== '') return String(v);
-  }
-  return '';
-}
-
-// Normalize numbers that might contain thousand separators and commas
-function normalizeNumberLike(value: unknown): string {
-  const s = String(value ?? '').trim();
-  // Remove spaces and thousands separators, convert comma to dot
-  return s.replace(/\s/g, '').replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.');
-}
-
-const parseIntCache = new Map<string, number>();
-const parseFloatCache = new Map<string, number>();
-
-function safeParseInt(value: unknown, fallback = 0): number {
-  if (typeof value === 'number' && Number.isFinite(value)) return Math.trunc(value);
-  const key = normalizeNumberLike(value);
-  if (!key) return fallback;
-  const hit = parseIntCache.get(key);
-  if (hit !== undefined) return hit;
-  const parsed = parseInt(key, 10);
-  const out = Number.isFinite(parsed) ? parsed : fallback;
-  parseIntCache.set(key, out);
-  return out;
-}
-
-function safeParseFloat(value: unknown, fallback = 0): number {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  const key = normalizeNumberLike(value);
-  if (!key) return fallback;
-  const hit = parseFloatCache.get(key);
-  if (hit !== undefined) return hit;
-  const parsed = parseFloat(key);
-  const out = Number.isFinite(parsed) ? parsed : fallback;
-  parseFloatCache.set(key, out);
-  return out;
-}
-
-function safeParseBoolean(value: unknown): boolean {
-  if (typeof value === 'boolean') return value;
-  const s = String(value ?? '').trim().toLowerCase();
-  return s === 'yes' || s === 'true' || s === '1' || s === 'ja' || s === 'y' || s === 'x';
-}
-
 // Generate a stable, simple normalization key for duplicate detection
 function normalizeAddressKey(s: string): string {
   return s
@@ -109,47 +82,8 @@ function normalizeAddressKey(s: string): string {
 /*                      Enhanced Address Creation for Your Data                */
 /* -------------------------------------------------------------------------- */
 
-function createAddress(row: Record<string, unknown>, id: number): Address {
-  const homesRaw = (row as any)[FIELD_MAPPINGS.homes[0]] ?? (row as any)[FIELD_MAPPINGS.homes[1]];
-  const priceRaw = (row as any)[FIELD_MAPPINGS.price[0]] ?? (row as any)[FIELD_MAPPINGS.price[1]];
-  const doneRaw = (row as any)[FIELD_MAPPINGS.completionDone[0]] ?? false;
-  
-  // Handle your file's separate contract columns
-  const l1OfferRaw = (row as any)[FIELD_MAPPINGS.l1OfferSent[0]] ?? 0;
-  const salesContractRaw = (row as any)[FIELD_MAPPINGS.salesContract[0]] ?? 0;
-  const combinedContractRaw = (row as any)[FIELD_MAPPINGS.contractStatus[0]] ?? 0;
-  
-  // Calculate contract status: use combined if available, otherwise combine separate columns
-  let contractStatus = 0;
-  if (combinedContractRaw > 0) {
-    contractStatus = safeParseInt(combinedContractRaw, 0);
-  } else {
-    const l1Offer = safeParseInt(l1OfferRaw, 0);
-    const salesContract = safeParseInt(salesContractRaw, 0);
-    contractStatus = Math.max(l1Offer, salesContract);
-  }
-
-  return {
-    id,
-    addressCode: getFieldValue(row, FIELD_MAPPINGS.addressCode),
-    address: getFieldValue(row, FIELD_MAPPINGS.address),
-    region: getFieldValue(row, FIELD_MAPPINGS.region),
-    ano: getFieldValue(row, FIELD_MAPPINGS.ano),
-    status: getFieldValue(row, FIELD_MAPPINGS.status),
-    homes: safeParseInt(homesRaw, 0),
-    contractStatus,
-    price: safeParseFloat(priceRaw, 0),
-    provisionCategory: getFieldValue(row, FIELD_MAPPINGS.provisionCategory),
-    buildingCompany: getFieldValue(row, FIELD_MAPPINGS.buildingCompany),
-    kgNumber: getFieldValue(row, FIELD_MAPPINGS.kgNumber),
-    completionPlanned: getFieldValue(row, FIELD_MAPPINGS.completionPlanned),
-    completionDone: safeParseBoolean(doneRaw),
-    d2dStart: getFieldValue(row, FIELD_MAPPINGS.d2dStart),
-    d2dEnd: getFieldValue(row, FIELD_MAPPINGS.d2dEnd),
-    outdoorFee: getFieldValue(row, FIELD_MAPPINGS.outdoorFee),
-    notes: getFieldValue(row, FIELD_MAPPINGS.notes), // Will be empty for your files
-    imported: true,
-  };
+function createAddress(row: Record<string, unknown>, id: string, fields: FieldLookup = FIELD_MAPPINGS): Address {
+  return { id, ...parseSchemaRow(row, fields), imported: true };
 }
 
 /* -------------------------------------------------------------------------- */
@@ -174,116 +108,498 @@ function createDuplicateChecker(existing: Address[]) {
   };
 }
 
+/* -------------------------------------------------------------------------- */
+/*                      Upsert matching (addressCode first)                   */
+/* -------------------------------------------------------------------------- */
+
+type UpsertOutcome =
+  | { kind: 'insert' }
+  | { kind: 'duplicate' } // already inserted earlier in the same import
+  | { kind: 'update'; target: Address }
+  | { kind: 'unchanged' }
+  | { kind: 'conflict'; reason: string };
+
+// Provider-owned Address fields an import may overwrite; notes always stay local
+const UPSERT_FIELD_SOURCES = providerOwnedSources();
+
+// Only fields that actually have a source column are compared, so an
+// unmapped column never blanks existing data
+function upsertFields(fields: FieldLookup): (keyof Address)[] {
+  const out = new Set<keyof Address>();
+  for (const [field, target] of UPSERT_FIELD_SOURCES) {
+    if (fields[field].length > 0) out.add(target);
+  }
+  return [...out];
+}
+
+function normalizeCode(code?: string): string {
+  return (code ?? '').trim().toLowerCase();
+}
+
+function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' || typeof b === 'string') return String(a ?? '').trim() === String(b ?? '').trim();
+  return (a ?? null) === (b ?? null);
+}
+
+function createUpsertMatcher(existing: Address[]) {
+  const byCode = new Map<string, Address[]>();
+  const byKey = new Map<string, Address[]>();
+  for (const a of existing) {
+    const code = normalizeCode(a.addressCode);
+    if (code) (byCode.get(code) ?? byCode.set(code, []).get(code)!).push(a);
+    const key = normalizeAddressKey(a.address || '');
+    (byKey.get(key) ?? byKey.set(key, []).get(key)!).push(a);
+  }
+
+  const updated = new Map<string, Address>();
+  const patches = new Map<string, Partial<Address>>(); // changed provider fields per updated row
+  const seen = new Set<string>();
+  const batchCodes = new Set<string>();
+  const batchKeys = new Set<string>();
+
+  return {
+    resolve(incoming: Address, compare: (keyof Address)[]): UpsertOutcome {
+      const code = normalizeCode(incoming.addressCode);
+      const key = normalizeAddressKey(incoming.address);
+
+      let candidates = code ? byCode.get(code) ?? [] : [];
+      if (candidates.length === 0) {
+        // Address text fallback, but never across two different codes
+        const byText = byKey.get(key) ?? [];
+        candidates = byText.filter(a => !code || !normalizeCode(a.addressCode));
+        if (byText.length > 0 && candidates.length === 0) {
+          return { kind: 'conflict', reason: 'Adresse existiert mit anderer adrcd-subcd' };
+        }
+      }
+
+      if (candidates.length > 1) return { kind: 'conflict', reason: 'Mehrdeutige Zuordnung' };
+
+      if (candidates.length === 0) {
+        if ((code && batchCodes.has(code)) || batchKeys.has(key)) return { kind: 'duplicate' };
+        return { kind: 'insert' };
+      }
+
+      const original = candidates[0];
+      const base = updated.get(original.id) ?? original;
+      const patch: Partial<Address> = {};
+      for (const f of compare) {
+        if (!sameFieldValue(base[f], incoming[f])) assignField(patch, f, incoming[f]);
+      }
+      const hasChanges = Object.keys(patch).length > 0;
+
+      // The same record showing up twice with different values can't be resolved automatically
+      if (seen.has(original.id)) {
+        return hasChanges ? { kind: 'conflict', reason: 'Mehrfach im Import mit abweichenden Werten' } : { kind: 'unchanged' };
+      }
+      seen.add(original.id);
+
+      if (!hasChanges) return { kind: 'unchanged' };
+      const target = { ...base, ...patch };
+      updated.set(original.id, target);
+      patches.set(original.id, { ...patches.get(original.id), ...patch });
+      return { kind: 'update', target };
+    },
+    addInserted(incoming: Address) {
+      const code = normalizeCode(incoming.addressCode);
+      if (code) batchCodes.add(code);
+      batchKeys.add(normalizeAddressKey(incoming.address));
+    },
+    // Only the changed fields, so rows edited while the import ran keep everything else
+    getUpdates(): Array<{ id: string; patch: Partial<Address> }> {
+      return [...patches].map(([id, patch]) => ({ id, patch }));
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Header detection                              */
+/* -------------------------------------------------------------------------- */
+
+// File types offered by the file picker and accepted by the drop zone
+export const IMPORT_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt';
+
+export function isImportableFile(file: File): boolean {
+  return /\.(xlsx|xls|csv|tsv|txt)$/i.test(file.name) || isDelimitedTextFile(file);
+}
+
+/**
+ * List every worksheet with its header row and row count. Only the first row
+ * of each sheet is parsed, so this stays fast for large workbooks. Text files
+ * only read their first bytes; the row count is an estimate there.
+ */
+export async function readWorkbookInfo(file: File): Promise<SheetInfo[]> {
+  if (isDelimitedTextFile(file)) {
+    const { headers, rowCount } = await readCSVHeader(file);
+    return [{ name: CSV_SHEET_NAME, rowCount, headers }];
+  }
+
+  const XLSX = await getXLSX();
+
+  const buf = await file.arrayBuffer();
+  const wb = XLSX.read(buf, {
+    sheetRows: 1,
+    cellDates: true,
+    raw: false,
+    cellStyles: false,
+    cellFormulas: false,
+  });
+
+  return (wb.SheetNames as string[]).map(name => {
+    const ws = wb.Sheets[name];
+    if (!ws || !ws['!ref']) return { name, rowCount: 0, headers: [] };
+
+    const [headerRow = []]: unknown[][] = XLSX.utils.sheet_to_json(ws, { header: 1, raw: false, defval: '' });
+    const headers = headerRow.map(h => String(h ?? '').trim()).filter(h => h !== '');
+
+    // SheetJS keeps the untruncated range in !fullref
+    const fullRef = ws['!fullref'] ?? ws['!ref'];
+    const range = XLSX.utils.decode_range(fullRef);
+    const rowCount = Math.max(0, range.e.r - range.s.r);
+
+    return { name, rowCount, headers };
+  });
+}
+
 /* -------------------------------------------------------------------------- */
 /*                    Optimized Import for Large Datasets                     */
 /* -------------------------------------------------------------------------- */
 
-export async function importExcelFiles(
-  files: File[],
-  existing: Address[]
-): Promise<{
+export type ImportResult = {
   newAddresses: Address[];
+  updates: Array<{ id: string; patch: Partial<Address> }>; // upsert mode: changed provider fields per existing row
   totalProcessed: number;
   duplicatesSkipped: number;
-}> {
+  unchanged: number;
+  conflicts: number;
+  reviewQueue: DuplicateCandidate[]; // likely duplicates, not part of newAddresses
+  issues: ImportIssue[]; // row-level validation report
+  files: FileImportResult[]; // per-file breakdown, in input order
+  batch: ImportBatch;
+};
+
+// Result for a file that failed before any row was read (unsupported, unreadable)
+export function failedFileResult(fileName: string, error: string): FileImportResult {
+  return {
+    fileName,
+    status: 'failed',
+    processed: 0,
+    imported: 0,
+    updated: 0,
+    duplicatesSkipped: 0,
+    unchanged: 0,
+    conflicts: 0,
+    heldForReview: 0,
+    invalid: 0,
+    error,
+  };
+}
+
+export type ImportOptions = {
+  mode?: ImportMode;
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportProgress) => void;
+};
+
+// Report progress every N rows; small enough to look smooth, large enough to stay cheap
+const PROGRESS_EVERY_ROWS = 2000;
+
+function createBatchId(): string {
+  return `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (!signal?.aborted) return;
+  const err = new Error('Import abgebrochen');
+  err.name = 'AbortError';
+  throw err;
+}
+
+export async function importExcelFiles(
+  files: File[],
+  existing: Address[],
+  plans: FileImportPlan[] = [],
+  { mode = 'skip', signal, onProgress }: ImportOptions = {}
+): Promise<ImportResult> {
   const XLSX = await getXLSX();
 
   const allNew: Address[] = [];
+  const fileResults: FileImportResult[] = [];
   let totalProcessed = 0;
   let duplicates = 0;
-  const baseId = Date.now();
+  let unchanged = 0;
+  let conflicts = 0;
+  const batchId = createBatchId();
+  const createdAt = new Date().toISOString();
+  const ids = createIdAllocator(existing.map(a => a.id));
 
   const duplicateChecker = createDuplicateChecker(existing);
+  const upsertMatcher = mode === 'upsert' ? createUpsertMatcher(existing) : null;
+  const fuzzyDetector = createFuzzyDuplicateDetector(existing);
+  const reviewQueue: DuplicateCandidate[] = [];
+  const issues: ImportIssue[] = [];
+
+  // Near-duplicates are parked for review instead of being inserted or dropped
+  const holdForReview = (incoming: Address): boolean => {
+    const hit = fuzzyDetector.findMatch(incoming);
+    if (!hit) return false;
+    reviewQueue.push({ incoming, existing: hit.match, score: hit.score });
+    return true;
+  };
 
   try {
     console.log(`Starting import of ${files.length} file(s)`);
-    
+
+    // Every file settles on its own: an unreadable file is reported as failed
+    // while the others finish. Only cancelling stops the whole import.
     const results = await Promise.all(
       files.map(async (file, fileIndex) => {
         console.log(`Processing file ${fileIndex + 1}/${files.length}: ${file.name}`);
-        
-        const buf = await file.arrayBuffer();
-        const wb = XLSX.read(buf, {
-          cellDates: true,
-          raw: false,
-          cellStyles: false,
-          cellFormulas: false,
-        });
 
-        const ws = wb.Sheets[wb.SheetNames[0]];
-        if (!ws) {
-          console.warn(`File ${file.name}: No worksheet found`);
-          return { addresses: [] as Address[], processed: 0, duplicates: 0 };
-        }
-
-        const rows: Record<string, unknown>[] = XLSX.utils.sheet_to_json(ws, {
-          raw: false,
-          defval: '',
-          blankrows: false,
-        });
+        const report = (processedRows: number, totalRows: number, status: ImportProgress['status'] = 'parsing') =>
+          onProgress?.({ fileIndex, fileName: file.name, processedRows, totalRows, status });
+        report(0, 0);
 
-        console.log(`Processing ${rows.length.toLocaleString()} rows from ${file.name}`);
+        const plan = plans[fileIndex];
+        const fields = resolveFieldLookup(plan?.mapping);
+        const compareFields = upsertFields(fields);
 
         const fileAddresses: Address[] = [];
         let fileDuplicates = 0;
+        let fileUnchanged = 0;
+        let fileConflicts = 0;
+        let fileUpdated = 0;
+        let fileHeld = 0;
+        let fileInvalid = 0;
+        let fileProcessed = 0;
+
+        const result = (error?: string) => ({
+          addresses: fileAddresses,
+          summary: {
+            fileName: file.name,
+            status: error === undefined ? 'done' : 'failed',
+            processed: fileProcessed,
+            imported: fileAddresses.length,
+            updated: fileUpdated,
+            duplicatesSkipped: fileDuplicates,
+            unchanged: fileUnchanged,
+            conflicts: fileConflicts,
+            heldForReview: fileHeld,
+            invalid: fileInvalid,
+            ...(error === undefined ? {} : { error }),
+          } satisfies FileImportResult,
+        });
 
-        // Increased chunk size for better performance with large datasets like yours
-        const CHUNK_SIZE = 500;
-        for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
-          const chunk = rows.slice(i, i + CHUNK_SIZE);
+        const park = (incoming: Address): boolean => {
+          if (!holdForReview(incoming)) return false;
+          fileHeld++;
+          return true;
+        };
 
-          for (let j = 0; j < chunk.length; j++) {
-            const row = chunk[j];
-            const addressText = getFieldValue(row, FIELD_MAPPINGS.address);
-            if (!addressText.trim()) continue;
+        // Shared by the worksheet and the streaming CSV path
+        const processRow = (row: Record<string, unknown>, rowNumber: number, sheetName: string) => {
+          const addIssue = (issue: RowIssue) => issues.push({ fileName: file.name, sheet: sheetName, row: rowNumber, ...issue });
+          const stamp = (address: Address) => {
+            address.sourceSheet = sheetName;
+            address.sourceFile = file.name;
+            address.sourceRow = rowNumber;
+            address.batchId = batchId;
+          };
+
+          const addressText = getFieldValue(row, fields.address);
+          if (!addressText.trim()) {
+            fileInvalid++;
+            addIssue({ column: fields.address[0] ?? '', rawValue: '', kind: 'skipped', message: 'Adresse fehlt' });
+            return;
+          }
 
-            if (duplicateChecker.isDuplicate(addressText)) {
-              fileDuplicates++;
-              continue;
+          if (upsertMatcher) {
+            // The ID is only allocated once the row turns out to be new
+            const incoming = createAddress(row, '', fields);
+            stamp(incoming);
+            const outcome = upsertMatcher.resolve(incoming, compareFields);
+            if (outcome.kind === 'insert' || outcome.kind === 'update') validateRow(row, fields, incoming).forEach(addIssue);
+            switch (outcome.kind) {
+              case 'insert':
+                incoming.id = ids.allocate(addressBaseId(incoming));
+                upsertMatcher.addInserted(incoming);
+                if (park(incoming)) break;
+                fileAddresses.push(incoming);
+                fuzzyDetector.add(incoming);
+                break;
+              case 'update':
+                fileUpdated++;
+                break;
+              case 'duplicate':
+                fileDuplicates++;
+                addIssue({ column: '', rawValue: addressText, kind: 'skipped', message: 'Doppelt in dieser Datei' });
+                break;
+              case 'unchanged':
+                fileUnchanged++;
+                break;
+              case 'conflict':
+                fileConflicts++;
+                addIssue({ column: '', rawValue: addressText, kind: 'skipped', message: `Konflikt: ${outcome.reason}` });
+                break;
             }
+            return;
+          }
 
-            const id = baseId + fileIndex * 1_000_000 + fileAddresses.length;
-            const address = createAddress(row, id);
-            fileAddresses.push(address);
-            duplicateChecker.add(addressText);
+          if (duplicateChecker.isDuplicate(addressText)) {
+            fileDuplicates++;
+            addIssue({ column: fields.address[0] ?? '', rawValue: addressText, kind: 'skipped', message: 'Duplikat – Adresse bereits vorhanden' });
+            return;
           }
 
-          // Progress logging for large files like yours (78K+ rows)
-          if (i % (CHUNK_SIZE * 20) === 0) {
-            const progress = Math.round(((i + CHUNK_SIZE) / rows.length) * 100);
-            console.log(`Progress: ${progress}% (${(i + CHUNK_SIZE).toLocaleString()}/${rows.length.toLocaleString()} rows)`);
-            // Yield control back to the event loop
-            await new Promise(r => setTimeout(r, 1));
+          const address = createAddress(row, '', fields);
+          address.id = ids.allocate(addressBaseId(address));
+          stamp(address);
+          duplicateChecker.add(addressText);
+          validateRow(row, fields, address).forEach(addIssue);
+          if (park(address)) return;
+          fileAddresses.push(address);
+          fuzzyDetector.add(address);
+        };
+
+        try {
+          if (isDelimitedTextFile(file)) {
+            // Text files are streamed so memory stays flat for 200K+ rows
+            if (plan?.sheets && !plan.sheets.includes(CSV_SHEET_NAME)) {
+              report(0, 0, 'done');
+              return result();
+            }
+
+            for await (const { records, bytesRead } of readCSVRecords(file)) {
+              throwIfAborted(signal);
+              for (const record of records) processRow(record.values, record.rowNumber, CSV_SHEET_NAME);
+              fileProcessed += records.length;
+              // Total is extrapolated from the bytes read so far
+              report(fileProcessed, Math.max(fileProcessed, Math.round((fileProcessed * file.size) / Math.max(1, bytesRead))));
+            }
+            console.log(`Streamed ${fileProcessed.toLocaleString()} rows from ${file.name}`);
+          } else {
+            const buf = await file.arrayBuffer();
+            throwIfAborted(signal);
+            const wb = XLSX.read(buf, {
+              cellDates: true,
+              raw: false,
+              cellStyles: false,
+              cellFormulas: false,
+            });
+            throwIfAborted(signal);
+
+            const sheetNames: string[] = (plan?.sheets ?? [wb.SheetNames[0]]).filter((name: string) => wb.Sheets[name]);
+            if (sheetNames.length === 0) {
+              console.warn(`File ${file.name}: No worksheet found`);
+              report(0, 0, 'done');
+              return result();
+            }
+
+            // Total from the sheet ranges (header row excluded) so progress is row based from the start
+            let fileTotal = 0;
+            for (const name of sheetNames) {
+              const ref = wb.Sheets[name]['!ref'];
+              if (ref) {
+                const range = XLSX.utils.decode_range(ref);
+                fileTotal += Math.max(0, range.e.r - range.s.r);
+              }
+            }
+            report(0, fileTotal);
+
+            for (const sheetName of sheetNames) {
+              const rows: Record<string, unknown>[] = XLSX.utils.sheet_to_json(wb.Sheets[sheetName], {
+                raw: false,
+                defval: '',
+                blankrows: false,
+              });
+
+              console.log(`Processing ${rows.length.toLocaleString()} rows from ${file.name} [${sheetName}]`);
+              const sheetOffset = fileProcessed;
+              fileProcessed += rows.length;
+
+              // Increased chunk size for better performance with large datasets like yours
+              const CHUNK_SIZE = 500;
+              for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+                throwIfAborted(signal);
+                const chunk = rows.slice(i, i + CHUNK_SIZE);
+
+                for (let j = 0; j < chunk.length; j++) {
+                  const row = chunk[j];
+                  // SheetJS keeps the 0-based sheet row on each object; fall back to header + index
+                  const rowNumber = ((row as { __rowNum__?: number }).__rowNum__ ?? i + j + 1) + 1;
+                  processRow(row, rowNumber, sheetName);
+                }
+
+                if (i % PROGRESS_EVERY_ROWS === 0) {
+                  report(Math.min(sheetOffset + i + CHUNK_SIZE, fileProcessed), Math.max(fileTotal, fileProcessed));
+                }
+
+                // Progress logging for large files like yours (78K+ rows)
+                if (i % (CHUNK_SIZE * 20) === 0) {
+                  const progress = Math.round(((i + CHUNK_SIZE) / rows.length) * 100);
+                  console.log(`Progress: ${progress}% (${(i + CHUNK_SIZE).toLocaleString()}/${rows.length.toLocaleString()} rows)`);
+                  // Yield control back to the event loop
+                  await new Promise(r => setTimeout(r, 1));
+                }
+              }
+            }
           }
-        }
 
-        console.log(`Completed ${file.name}: ${fileAddresses.length.toLocaleString()} imported, ${fileDuplicates.toLocaleString()} duplicates skipped`);
-        return { addresses: fileAddresses, processed: rows.length, duplicates: fileDuplicates };
+          report(fileProcessed, fileProcessed, 'done');
+          console.log(`Completed ${file.name}: ${fileAddresses.length.toLocaleString()} imported, ${fileDuplicates.toLocaleString()} duplicates skipped`);
+          return result();
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') throw error;
+          console.error(`Error processing ${file.name}:`, error);
+          report(fileProcessed, fileProcessed, 'failed');
+          return result(error instanceof Error ? error.message : String(error));
+        }
       })
     );
 
-    for (const r of results) {
-      allNew.push(...r.addresses);
-      totalProcessed += r.processed;
-      duplicates += r.duplicates;
+    for (const { addresses, summary } of results) {
+      allNew.push(...addresses);
+      fileResults.push(summary);
+      totalProcessed += summary.processed;
+      duplicates += summary.duplicatesSkipped;
+      unchanged += summary.unchanged;
+      conflicts += summary.conflicts;
     }
     
     console.log(`Import complete: ${allNew.length.toLocaleString()} addresses imported, ${duplicates.toLocaleString()} duplicates skipped`);
   } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
     console.error('Error processing Excel files:', error);
     throw new Error(
       `Failed to process Excel files: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   } finally {
     // Clear caches to prevent memory leaks with large datasets
-    parseIntCache.clear();
-    parseFloatCache.clear();
+    clearParseCaches();
   }
 
+  const updates = upsertMatcher?.getUpdates() ?? [];
+
   return {
     newAddresses: allNew,
+    updates,
     totalProcessed,
     duplicatesSkipped: duplicates,
+    unchanged,
+    conflicts,
+    reviewQueue,
+    issues,
+    files: fileResults,
+    batch: {
+      id: batchId,
+      createdAt,
+      fileNames: files.map(f => f.name),
+      mode,
+      totalProcessed,
+      imported: allNew.length,
+      updated: updates.length,
+      duplicatesSkipped: duplicates,
+      heldForReview: reviewQueue.length,
+    },
   };
 }
 
@@ -291,84 +607,247 @@ export async function importExcelFiles(
 /*                                   Export                                   */
 /* -------------------------------------------------------------------------- */
 
-export async function exportCSVWeb(addresses: Address[]): Promise<void> {
-  if (addresses.length === 0) throw new Error('No addresses to export');
+// One export row; numbers stay numbers so .xlsx cells are typed
+export const toExportRow = formatSchemaRow;
+
+// Builds the full row an export picks its columns from (delta exports add columns)
+export type ExportRowFormatter = (a: Address) => Record<string, string | number>;
+
+// Every export column in default order
+export { EXPORT_COLUMNS };
+
+// Reduce a full export row to the chosen columns, in the chosen order
+export function pickExportColumns(
+  row: Record<string, string | number>,
+  columns: readonly string[]
+): Record<string, string | number> {
+  const out: Record<string, string | number> = {};
+  for (const column of columns) out[column] = row[column] ?? '';
+  return out;
+}
+
+async function buildExportRows(
+  addresses: Address[],
+  columns: readonly string[] = EXPORT_COLUMNS,
+  toRow: ExportRowFormatter = toExportRow
+): Promise<Record<string, string | number>[]> {
+  const data = new Array(addresses.length);
+
+  // Process in chunks for better performance with large datasets
+  const CHUNK_SIZE = 1000;
+  for (let i = 0; i < addresses.length; i += CHUNK_SIZE) {
+    const chunk = addresses.slice(i, i + CHUNK_SIZE);
+    for (let j = 0; j < chunk.length; j++) data[i + j] = pickExportColumns(toRow(chunk[j]), columns);
+
+    // Yield control for large datasets
+    if (i % (CHUNK_SIZE * 5) === 0) {
+      await new Promise(r => setTimeout(r, 1));
+    }
+  }
 
+  return data;
+}
+
+/**
+ * Decimals are written with a comma (1.234 -> "1,234"): the import reads a dot
+ * followed by three digits as a thousands separator, so "1.234" would come
+ * back as 1234.
+ */
+function toCSVRow(row: Record<string, string | number>): Record<string, string | number> {
+  const out: Record<string, string | number> = {};
+  for (const [column, value] of Object.entries(row)) {
+    out[column] = typeof value === 'number' && !Number.isInteger(value) ? String(value).replace('.', ',') : value;
+  }
+  return out;
+}
+
+/** CSV text (no BOM) with the chosen columns; shared by web and native export */
+export async function buildExportCSV(
+  addresses: Address[],
+  columns: readonly string[] = EXPORT_COLUMNS,
+  toRow: ExportRowFormatter = toExportRow
+): Promise<string> {
   const XLSX = await getXLSX();
+  const rows = (await buildExportRows(addresses, columns, toRow)).map(toCSVRow);
+  const ws = XLSX.utils.json_to_sheet(rows, { header: [...columns] });
+  return XLSX.utils.sheet_to_csv(ws, { FS: ',', RS: '\n' });
+}
 
-  try {
-    console.log(`Exporting ${addresses.length.toLocaleString()} addresses to CSV`);
-    
-    const data = new Array(addresses.length);
-
-    // Process in chunks for better performance with large datasets
-    const CHUNK_SIZE = 1000;
-    for (let i = 0; i < addresses.length; i += CHUNK_SIZE) {
-      const chunk = addresses.slice(i, i + CHUNK_SIZE);
-
-      for (let j = 0; j < chunk.length; j++) {
-        const a = chunk[j];
-        data[i + j] = {
-          'adrcd-subcd': a.addressCode || '',
-          'Adresse': a.address || '',
-          'Region': a.region || '',
-          'ANO': a.ano || '',
-          'Status': a.status || '',
-          'Anzahl der Homes': a.homes ?? 0,
-          'Vertrag auf Adresse vorhanden oder L1-Angebot gesendet': a.contractStatus ?? 0,
-          'Preis Standardprodukt (€)': a.price ?? 0,
-          'Provisions-Kategorie': a.provisionCategory || '',
-          'Baufirma': a.buildingCompany || '',
-          'KG Nummer': a.kgNumber || '',
-          'Fertigstellung Bau (aktueller Plan)': a.completionPlanned || '',
-          'Fertigstellung Bau erfolgt': a.completionDone ? 'Yes' : '',
-          'D2D-Vertrieb Start': a.d2dStart || '',
-          'D2D-Vertrieb Ende': a.d2dEnd || '',
-          'Outdoor-Pauschale vorhanden': a.outdoorFee || '',
-          'Notes': a.notes || '',
-        };
-      }
+export async function buildCSVBlob(
+  addresses: Address[],
+  columns: readonly string[] = EXPORT_COLUMNS,
+  toRow: ExportRowFormatter = toExportRow
+): Promise<Blob> {
+  const csv = await buildExportCSV(addresses, columns, toRow);
+  // Prepend BOM for Excel compatibility (fixes German characters)
+  return new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             Round-trip check                               */
+/* -------------------------------------------------------------------------- */
+
+export type RoundTripMismatch = {
+  id: string;
+  field: keyof Address;
+  exported: unknown;
+  reimported: unknown;
+};
+
+const ROUND_TRIP_FIELDS = [...new Set(providerOwnedSources().map(([, property]) => property))].concat(
+  'addressCode',
+  'notes'
+);
+
+/**
+ * Export the given addresses to CSV with every column, read that file back
+ * through the regular import parser and report every field that changed.
+ * An empty result means export -> import reproduces the same records.
+ */
+export async function verifyExportRoundTrip(addresses: Address[]): Promise<RoundTripMismatch[]> {
+  if (addresses.length === 0) return [];
+
+  const csv = await buildExportCSV(addresses);
+  const file = new File(['\uFEFF' + csv], 'round-trip.csv', { type: 'text/csv' });
+  const mismatches: RoundTripMismatch[] = [];
 
-      // Yield control for large datasets
-      if (i % (CHUNK_SIZE * 5) === 0) {
-        await new Promise(r => setTimeout(r, 1));
+  try {
+    let i = 0;
+    for await (const { records } of readCSVRecords(file)) {
+      for (const record of records) {
+        const original = addresses[i++];
+        if (!original) break;
+        const reimported = createAddress(record.values, original.id);
+        for (const field of ROUND_TRIP_FIELDS) {
+          if (!sameFieldValue(original[field], reimported[field])) {
+            mismatches.push({ id: original.id, field, exported: original[field], reimported: reimported[field] });
+          }
+        }
       }
     }
+    if (i !== addresses.length) {
+      mismatches.push({ id: '', field: 'id', exported: addresses.length, reimported: i });
+    }
+  } finally {
+    clearParseCaches();
+  }
+
+  return mismatches;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                .xlsx export                                */
+/* -------------------------------------------------------------------------- */
+
+export type SummaryRow = { label: string; value: number | string };
 
-    const ws = XLSX.utils.json_to_sheet(data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Addresses');
-
-    const csv = XLSX.write(wb, {
-      type: 'string',
-      bookType: 'csv',
-      FS: ',',
-      RS: '\n',
-    });
-
-    // Prepend BOM for Excel compatibility (fixes German characters)
-    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-
-    try {
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `address-data-${new Date().toISOString().split('T')[0]}.csv`;
-      link.style.display = 'none';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      console.log('CSV export completed successfully');
-    } finally {
-      URL.revokeObjectURL(url);
+const SUMMARY_SHEET_NAME = 'Übersicht';
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+
+// Only the first rows are measured; enough for a sensible width on 78K+ rows
+const WIDTH_SAMPLE_ROWS = 500;
+
+const FROZEN_HEADER_PANE = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+
+/**
+ * Excel sheet names: max. 31 characters, none of []:*?/\ and unique
+ * regardless of case. Clashes get a " (2)", " (3)", ... suffix.
+ */
+function toSheetName(name: string, used: Set<string>): string {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, '-')
+      .replace(/^'+|'+$/g, '')
+      .trim() || 'Gruppe';
+
+  let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH);
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function columnWidths(headers: string[], rows: Record<string, string | number>[]): Array<{ wch: number }> {
+  return headers.map(header => {
+    let width = header.length;
+    for (let i = 0; i < Math.min(rows.length, WIDTH_SAMPLE_ROWS); i++) {
+      width = Math.max(width, String(rows[i][header] ?? '').length);
     }
-  } catch (error) {
-    console.error('Error exporting CSV:', error);
-    throw new Error(
-      `Failed to export CSV: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+    return { wch: Math.min(width, MAX_COLUMN_WIDTH) + 2 };
+  });
+}
+
+/**
+ * SheetJS CE cannot write frozen panes, so the header row is frozen by
+ * patching the sheet XML inside the generated zip.
+ */
+function freezeHeaderRows(XLSX: any, data: Uint8Array, sheetCount: number): ArrayBuffer {
+  const zip = XLSX.CFB.read(data, { type: 'array' });
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+
+  zip.FullPaths.forEach((path: string, i: number) => {
+    const m = path.match(/xl\/worksheets\/sheet(\d+)\.xml$/);
+    if (!m || Number(m[1]) > sheetCount) return;
+    const entry = zip.FileIndex[i];
+    const xml = decoder.decode(entry.content);
+    const patched = xml.replace(/<sheetView ([^>]*?)\/>/, `<sheetView $1>${FROZEN_HEADER_PANE}</sheetView>`);
+    if (patched === xml) return;
+    entry.content = encoder.encode(patched);
+    entry.size = entry.content.length;
+  });
+
+  // Copy into a fresh, exactly sized buffer (CFB may hand back a Buffer or plain array)
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true })).buffer;
+}
+
+/**
+ * Formatted workbook: a summary sheet with the KPIs first, then one sheet per
+ * group with typed cells, frozen header, autofilter and fitted column widths.
+ */
+export async function buildXLSXWorkbook(
+  groups: Record<string, Address[]>,
+  summary: SummaryRow[],
+  columns: readonly string[] = EXPORT_COLUMNS,
+  toRow: ExportRowFormatter = toExportRow
+): Promise<ArrayBuffer> {
+  const XLSX = await getXLSX();
+  const wb = XLSX.utils.book_new();
+  const used = new Set<string>();
+
+  const summaryRows = [
+    ...summary.map(row => ({ Kennzahl: row.label, Wert: row.value })),
+    { Kennzahl: 'Exportiert am', Wert: new Date().toLocaleString('de-DE') },
+  ];
+  const summarySheet = XLSX.utils.json_to_sheet(summaryRows, { header: ['Kennzahl', 'Wert'] });
+  summarySheet['!cols'] = columnWidths(['Kennzahl', 'Wert'], summaryRows);
+  XLSX.utils.book_append_sheet(wb, summarySheet, toSheetName(SUMMARY_SHEET_NAME, used));
+
+  const headers = [...columns];
+  for (const [group, addresses] of Object.entries(groups)) {
+    const rows = await buildExportRows(addresses, columns, toRow);
+    const ws = XLSX.utils.json_to_sheet(rows, { header: headers });
+    ws['!autofilter'] = { ref: ws['!ref'] };
+    ws['!cols'] = columnWidths(headers, rows);
+    XLSX.utils.book_append_sheet(wb, ws, toSheetName(group, used));
   }
+
+  const data: ArrayBuffer = XLSX.write(wb, { type: 'array', bookType: 'xlsx', compression: true });
+  return freezeHeaderRows(XLSX, new Uint8Array(data), wb.SheetNames.length);
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export async function buildXLSXBlob(
+  groups: Record<string, Address[]>,
+  summary: SummaryRow[],
+  columns: readonly string[] = EXPORT_COLUMNS,
+  toRow: ExportRowFormatter = toExportRow
+): Promise<Blob> {
+  return new Blob([await buildXLSXWorkbook(groups, summary, columns, toRow)], { type: XLSX_MIME_TYPE });
 }
 
 /* -------------------------------------------------------------------------- */
@@ -376,7 +855,6 @@ export async function exportCSVWeb(addresses: Address[]): Promise<void> {
 /* -------------------------------------------------------------------------- */
 
 export function clearCaches(): void {
-  parseIntCache.clear();
-  parseFloatCache.clear();
+  clearParseCaches();
   xlsxCache = null;
 }
\ No newline at end of file
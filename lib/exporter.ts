@@ -0,0 +1,97 @@
+// lib/exporter.ts
+import type { ExportFormat, ExportScope, NativeDirectory } from './types';
+import { EXPORT_COLUMNS } from './excel';
+import { fileDateStamp } from './download';
+
+/* -------------------------------------------------------------------------- */
+/*                              Saved preferences                             */
+/* -------------------------------------------------------------------------- */
+
+// Column choice, format and file settings of the last export, offered again next time
+export type ExportPreferences = {
+  columns: string[];
+  format: ExportFormat;
+  fileNameTemplate: string; // see renderExportFileName
+  nativeDirectory: NativeDirectory; // where the native app writes the file
+};
+
+export const DEFAULT_FILE_NAME_TEMPLATE = 'address-data-{datum}';
+
+const PREFERENCES_STORAGE_KEY = 'address-manager-pro:export-preferences';
+
+export function defaultExportPreferences(): ExportPreferences {
+  return { columns: [...EXPORT_COLUMNS], format: 'xlsx', fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE, nativeDirectory: 'DOCUMENTS' };
+}
+
+/**
+ * Stored columns are checked against the current export columns, so a
+ * renamed or removed column never ends up in an export.
+ */
+export function loadExportPreferences(): ExportPreferences {
+  const fallback = defaultExportPreferences();
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const raw = window.localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw) as Partial<ExportPreferences>;
+    const columns = Array.isArray(parsed.columns) ? parsed.columns.filter(c => EXPORT_COLUMNS.includes(c)) : [];
+    return {
+      columns: columns.length > 0 ? columns : fallback.columns,
+      format: parsed.format === 'csv' || parsed.format === 'ics' ? parsed.format : 'xlsx',
+      fileNameTemplate:
+        typeof parsed.fileNameTemplate === 'string' && parsed.fileNameTemplate.trim()
+          ? parsed.fileNameTemplate
+          : fallback.fileNameTemplate,
+      nativeDirectory: parsed.nativeDirectory === 'CACHE' ? 'CACHE' : 'DOCUMENTS',
+    };
+  } catch (error) {
+    console.warn('Failed to read export preferences:', error);
+    return fallback;
+  }
+}
+
+export function saveExportPreferences(preferences: ExportPreferences): void {
+  try {
+    window.localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    // Not worth interrupting the export for
+    console.warn('Failed to store export preferences:', error);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 File names                                 */
+/* -------------------------------------------------------------------------- */
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { xlsx: 'xlsx', csv: 'csv', ics: 'ics' };
+
+const SCOPE_NAMES: Record<ExportScope, string> = {
+  all: 'alle',
+  filtered: 'gefiltert',
+  groups: 'gruppen',
+  changed: 'aenderungen',
+};
+
+// Placeholders offered in the export dialog
+export const FILE_NAME_PLACEHOLDERS = ['{datum}', '{zeit}', '{umfang}', '{anzahl}'] as const;
+
+/**
+ * Fill a template such as "adressen-{umfang}-{datum}" and append the format's
+ * extension. Characters that are not allowed in file names become "_".
+ */
+export function renderExportFileName(
+  template: string,
+  values: { format: ExportFormat; scope: ExportScope; count: number },
+  now = new Date()
+): string {
+  const time = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`;
+  const name = (template.trim() || DEFAULT_FILE_NAME_TEMPLATE)
+    .replace(/\{datum\}/g, fileDateStamp(now))
+    .replace(/\{zeit\}/g, time)
+    .replace(/\{umfang\}/g, SCOPE_NAMES[values.scope])
+    .replace(/\{anzahl\}/g, String(values.count))
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_')
+    .replace(/\.+$/, '');
+  return `${name || 'export'}.${FILE_EXTENSIONS[values.format]}`;
+}
@@ -0,0 +1,170 @@
+// lib/facets.ts
+import type { Address, FacetFilters, FacetKey, RangeKey } from './types';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Panel order; contract and notes first because they are the most used filters
+export const FACETS: ReadonlyArray<{ key: FacetKey; label: string }> = [
+  { key: 'contract', label: 'Vertrag' },
+  { key: 'notes', label: 'Notizen' },
+  { key: 'status', label: 'Status' },
+  { key: 'ano', label: 'ANO' },
+  { key: 'buildingCompany', label: 'Baufirma' },
+  { key: 'provisionCategory', label: 'Provisions-Kategorie' },
+  { key: 'completionDone', label: 'Fertigstellung Bau' },
+  { key: 'outdoorFee', label: 'Outdoor-Pauschale' },
+  { key: 'region', label: 'Region' },
+  { key: 'plz', label: 'PLZ' },
+];
+
+export const RANGES: ReadonlyArray<{ key: RangeKey; label: string }> = [
+  { key: 'homes', label: 'Anzahl der Homes' },
+  { key: 'price', label: 'Preis Standardprodukt (€)' },
+];
+
+export const EMPTY_FACET_FILTERS: FacetFilters = { selected: {}, ranges: {} };
+
+// Facet value of rows without an entry in that field
+const EMPTY_VALUE = '';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Values                                   */
+/* -------------------------------------------------------------------------- */
+
+function facetValue(address: Address, key: FacetKey, plz: string): string {
+  switch (key) {
+    case 'contract':
+      return (address.contractStatus ?? 0) > 0 ? 'mit' : 'ohne';
+    case 'notes':
+      return address.notes?.trim() ? 'mit' : 'ohne';
+    case 'completionDone':
+      return address.completionDone ? 'ja' : 'nein';
+    case 'plz':
+      return plz;
+    default:
+      return (address[key] ?? EMPTY_VALUE).trim();
+  }
+}
+
+const VALUE_LABELS: Partial<Record<FacetKey, Record<string, string>>> = {
+  contract: { mit: 'Mit Vertrag', ohne: 'Kein Vertrag' },
+  notes: { mit: 'Mit Notizen', ohne: 'Ohne Notizen' },
+  completionDone: { ja: 'Ja', nein: 'Nein' },
+};
+
+export function facetValueLabel(key: FacetKey, value: string): string {
+  if (value === EMPTY_VALUE) return '(leer)';
+  return VALUE_LABELS[key]?.[value] ?? value;
+}
+
+/** Number of facets and ranges that currently narrow the list. */
+export function activeFilterCount(filters: FacetFilters): number {
+  const facets = FACETS.filter(f => filters.selected[f.key]?.length).length;
+  const ranges = RANGES.filter(r => filters.ranges[r.key]).length;
+  return facets + ranges;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Evaluation                                 */
+/* -------------------------------------------------------------------------- */
+
+export type FacetResult = {
+  matches: Address[]; // rows passing every facet and range
+  counts: Record<FacetKey, Map<string, number>>; // per value: rows passing all *other* filters
+  bounds: Record<RangeKey, { min: number; max: number }>; // over all input rows
+};
+
+/**
+ * Filter rows by the selected facet values and ranges and count every facet
+ * value in one pass. A value's count is the number of rows that would match
+ * if only this facet were changed, so counts reflect the other active facets:
+ * a row failing no facet counts everywhere, a row failing exactly one facet
+ * counts only for that facet, a row failing more (or a range) counts nowhere.
+ */
+export function applyFacets(
+  rows: readonly Address[],
+  filters: FacetFilters,
+  plzOf: (address: Address) => string
+): FacetResult {
+  const active = FACETS.flatMap((f, index) => {
+    const values = filters.selected[f.key];
+    return values?.length ? [{ index, values: new Set(values) }] : [];
+  });
+  const ranges = RANGES.flatMap(r => {
+    const range = filters.ranges[r.key];
+    return range ? [{ key: r.key, ...range }] : [];
+  });
+
+  const counts = Object.fromEntries(FACETS.map(f => [f.key, new Map<string, number>()])) as FacetResult['counts'];
+  const bounds = Object.fromEntries(
+    RANGES.map(r => [r.key, { min: Infinity, max: -Infinity }])
+  ) as FacetResult['bounds'];
+  const countMaps = FACETS.map(f => counts[f.key]);
+  const bump = (facet: number, value: string) => countMaps[facet].set(value, (countMaps[facet].get(value) ?? 0) + 1);
+
+  const matches: Address[] = [];
+  const values: string[] = new Array(FACETS.length);
+
+  for (const row of rows) {
+    for (const r of RANGES) {
+      const n = row[r.key] ?? 0;
+      if (n < bounds[r.key].min) bounds[r.key].min = n;
+      if (n > bounds[r.key].max) bounds[r.key].max = n;
+    }
+    if (ranges.some(r => (row[r.key] ?? 0) < r.min || (row[r.key] ?? 0) > r.max)) continue;
+
+    const plz = plzOf(row);
+    for (let i = 0; i < FACETS.length; i++) values[i] = facetValue(row, FACETS[i].key, plz);
+
+    let failed = -1;
+    let failures = 0;
+    for (const { index, values: allowed } of active) {
+      if (allowed.has(values[index])) continue;
+      failed = index;
+      if (++failures > 1) break;
+    }
+
+    if (failures === 0) {
+      matches.push(row);
+      for (let i = 0; i < FACETS.length; i++) bump(i, values[i]);
+    } else if (failures === 1) {
+      bump(failed, values[failed]);
+    }
+  }
+
+  for (const r of RANGES) {
+    if (bounds[r.key].min > bounds[r.key].max) bounds[r.key] = { min: 0, max: 0 };
+  }
+
+  return { matches, counts, bounds };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Sanitizing                                 */
+/* -------------------------------------------------------------------------- */
+
+// Facet filters from a project file or another untrusted source
+export function toFacetFilters(raw: unknown): FacetFilters {
+  const asRecord = (value: unknown) => (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const r = asRecord(raw);
+  const selectedRaw = asRecord(r.selected);
+  const rangesRaw = asRecord(r.ranges);
+  const selected: FacetFilters['selected'] = {};
+  const ranges: FacetFilters['ranges'] = {};
+
+  for (const { key } of FACETS) {
+    const values = selectedRaw[key];
+    if (!Array.isArray(values)) continue;
+    const strings = values.filter((v): v is string => typeof v === 'string');
+    if (strings.length) selected[key] = strings;
+  }
+  for (const { key } of RANGES) {
+    const { min, max } = asRecord(rangesRaw[key]);
+    if (typeof min === 'number' && typeof max === 'number' && Number.isFinite(min) && Number.isFinite(max) && min <= max) {
+      ranges[key] = { min, max };
+    }
+  }
+  return { selected, ranges };
+}
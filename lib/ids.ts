@@ -0,0 +1,77 @@
+// lib/ids.ts
+import type { Address } from './types';
+import { foldText } from './street';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Column carrying the internal ID in CSV/Excel exports
+export const EXPORT_ID_HEADER = 'Interne ID';
+
+// "code:4541-12-1", "h:1k3f9x2a0b", second row with the same base: "code:4541-12-1~2"
+const CODE_PREFIX = 'code:';
+const HASH_PREFIX = 'h:';
+const COLLISION_SEPARATOR = '~';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Hashing                                   */
+/* -------------------------------------------------------------------------- */
+
+// cyrb53: fast 53-bit string hash, plenty for per-portfolio uniqueness
+export function hash53(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Stable ID base for an address: the provider code when present, otherwise a
+ * hash of the folded address text and region. Re-importing the same row
+ * yields the same base, so references survive a rollback and re-import.
+ */
+export function addressBaseId(address: Pick<Address, 'addressCode' | 'address' | 'region'>): string {
+  const code = String(address.addressCode ?? '').trim().replace(/\s+/g, '');
+  if (code) return CODE_PREFIX + code;
+
+  const content = [address.address, address.region]
+    .map(part => foldText(String(part ?? '')).replace(/\s+/g, ' ').trim())
+    .join('|');
+  return HASH_PREFIX + hash53(content);
+}
+
+/**
+ * Hands out unique IDs: the base itself if free, otherwise base~2, base~3, ...
+ * Seed it with every ID already in use.
+ */
+export function createIdAllocator(taken: Iterable<string> = []) {
+  const used = new Set(taken);
+
+  return {
+    allocate(base: string): string {
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}${COLLISION_SEPARATOR}${n}`;
+      used.add(id);
+      return id;
+    },
+    has(id: string): boolean {
+      return used.has(id);
+    },
+  };
+}
+
+/** IDs before this scheme were numeric timestamps */
+export function isLegacyId(id: unknown): boolean {
+  return typeof id !== 'string' || id === '';
+}
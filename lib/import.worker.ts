@@ -0,0 +1,26 @@
+// lib/import.worker.ts
+import { importExcelFiles } from './excel';
+import type { ImportWorkerMessage, ImportWorkerRequest } from './importer';
+
+// Typed as a dedicated worker scope without pulling the webworker lib into the app build
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<ImportWorkerRequest>) => void) | null;
+  postMessage: (msg: ImportWorkerMessage) => void;
+};
+
+ctx.onmessage = async (e: MessageEvent<ImportWorkerRequest>) => {
+  const { files, existing, plans, mode } = e.data;
+
+  try {
+    const result = await importExcelFiles(files, existing, plans, {
+      mode,
+      onProgress: progress => ctx.postMessage({ type: 'progress', progress }),
+    });
+    ctx.postMessage({ type: 'done', result });
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
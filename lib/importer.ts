@@ -0,0 +1,106 @@
+// lib/importer.ts
+import type { Address, FileImportPlan, ImportMode, ImportProgress } from './types';
+import type { ImportOptions, ImportResult } from './excel';
+
+/* -------------------------------------------------------------------------- */
+/*                          Worker message protocol                           */
+/* -------------------------------------------------------------------------- */
+
+export type ImportWorkerRequest = {
+  files: File[];
+  existing: Address[];
+  plans: FileImportPlan[];
+  mode: ImportMode;
+};
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; result: ImportResult }
+  | { type: 'error'; message: string };
+
+function abortError(): Error {
+  const err = new Error('Import abgebrochen');
+  err.name = 'AbortError';
+  return err;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Main-thread fallback                             */
+/* -------------------------------------------------------------------------- */
+
+async function runImportInline(
+  files: File[],
+  existing: Address[],
+  plans: FileImportPlan[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const { importExcelFiles } = await import('./excel');
+  return importExcelFiles(files, existing, plans, options);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parse, map and dedupe the files in a dedicated Web Worker so large imports
+ * never block the UI. Cancelling terminates the worker immediately.
+ * Falls back to the main thread where workers are unavailable.
+ */
+export function runImport(
+  files: File[],
+  existing: Address[],
+  plans: FileImportPlan[] = [],
+  { mode = 'skip', signal, onProgress }: ImportOptions = {}
+): Promise<ImportResult> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  if (typeof Worker === 'undefined') {
+    return runImportInline(files, existing, plans, { mode, signal, onProgress });
+  }
+
+  return new Promise<ImportResult>((resolve, reject) => {
+    const worker = new Worker(new URL('./import.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    function handleAbort() {
+      cleanup();
+      reject(abortError());
+    }
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<ImportWorkerMessage>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case 'progress':
+          onProgress?.(msg.progress);
+          break;
+        case 'done':
+          cleanup();
+          resolve(msg.result);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(msg.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      cleanup();
+      reject(new Error(`Import-Worker fehlgeschlagen: ${e.message || 'Unbekannter Fehler'}`));
+    };
+
+    const request: ImportWorkerRequest = { files, existing, plans, mode };
+    worker.postMessage(request);
+  });
+}
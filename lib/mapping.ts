@@ -0,0 +1,219 @@
+// lib/mapping.ts
+import type { ColumnMapping, ImportField } from './types';
+import { FIELD_MAPPINGS } from './excel';
+
+/* -------------------------------------------------------------------------- */
+/*                              Field descriptions                            */
+/* -------------------------------------------------------------------------- */
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  address: 'Adresse',
+  addressCode: 'Adress-ID (adrcd-subcd)',
+  region: 'Region',
+  ano: 'ANO / Anbieter',
+  status: 'Status',
+  homes: 'Anzahl der Homes',
+  l1OfferSent: 'L1-Angebot gesendet',
+  salesContract: 'Verkaufsauftrag vorhanden',
+  contractStatus: 'Vertrag (kombiniert)',
+  price: 'Preis Standardprodukt (€)',
+  provisionCategory: 'Provisions-Kategorie',
+  buildingCompany: 'Baufirma',
+  kgNumber: 'KG Nummer',
+  completionPlanned: 'Fertigstellung geplant',
+  completionDone: 'Fertigstellung erfolgt',
+  d2dStart: 'D2D-Vertrieb Start',
+  d2dEnd: 'D2D-Vertrieb Ende',
+  outdoorFee: 'Outdoor-Pauschale',
+  notes: 'Notizen',
+};
+
+export const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+// Extra keywords that commonly show up in supplier headers besides the exact aliases
+const FIELD_KEYWORDS: Partial<Record<ImportField, readonly string[]>> = {
+  address: ['anschrift', 'strasse', 'adr'],
+  addressCode: ['adrcd', 'subcd', 'adressid', 'code'],
+  region: ['plz', 'ort', 'gemeinde', 'postleitzahl'],
+  homes: ['homes', 'wohneinheiten', 'we', 'haushalte'],
+  l1OfferSent: ['l1', 'angebot'],
+  salesContract: ['verkaufsauftrag', 'auftrag'],
+  contractStatus: ['vertrag'],
+  price: ['preis', 'eur', 'kosten'],
+  provisionCategory: ['provision', 'kategorie'],
+  buildingCompany: ['baufirma', 'bauunternehmen'],
+  kgNumber: ['kg', 'katastralgemeinde'],
+  completionPlanned: ['plan', 'geplant'],
+  completionDone: ['erfolgt', 'fertig'],
+  d2dStart: ['start', 'beginn'],
+  d2dEnd: ['ende'],
+  outdoorFee: ['outdoor', 'pauschale'],
+  notes: ['notiz', 'notizen', 'bemerkung', 'kommentar'],
+};
+
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Utilities                                  */
+/* -------------------------------------------------------------------------- */
+
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokens(s: string): string[] {
+  return normalizeHeader(s).split(' ').filter(Boolean);
+}
+
+// Dice coefficient over word tokens: 1 = same words, 0 = nothing in common
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  let shared = 0;
+  for (const t of new Set(a)) if (setB.has(t)) shared++;
+  return (2 * shared) / (a.length + b.length);
+}
+
+function scoreHeader(header: string, field: ImportField): number {
+  const normalized = normalizeHeader(header);
+  const headerTokens = tokens(header);
+  let best = 0;
+
+  for (const alias of FIELD_MAPPINGS[field]) {
+    const normalizedAlias = normalizeHeader(alias);
+    if (normalized === normalizedAlias) return 1;
+    if (normalizedAlias.length > 3 && normalized.includes(normalizedAlias)) best = Math.max(best, 0.9);
+    best = Math.max(best, tokenSimilarity(headerTokens, tokens(alias)));
+  }
+
+  for (const keyword of FIELD_KEYWORDS[field] ?? []) {
+    if (headerTokens.includes(keyword)) best = Math.max(best, tokenSimilarity(headerTokens, [keyword]));
+  }
+
+  return best;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Mapping suggestions                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Suggest a target field for every header. Exact aliases win, then the best
+ * fuzzy match; each field is assigned to at most one header.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const candidates: Array<{ header: string; field: ImportField; score: number }> = [];
+
+  for (const header of headers) {
+    for (const field of IMPORT_FIELDS) {
+      const score = scoreHeader(header, field);
+      if (score >= MIN_SUGGESTION_SCORE) candidates.push({ header, field, score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  for (const header of headers) mapping[header] = null;
+
+  const usedFields = new Set<ImportField>();
+  const usedHeaders = new Set<string>();
+  for (const c of candidates) {
+    if (usedFields.has(c.field) || usedHeaders.has(c.header)) continue;
+    mapping[c.header] = c.field;
+    usedFields.add(c.field);
+    usedHeaders.add(c.header);
+  }
+
+  return mapping;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Saved profiles                               */
+/* -------------------------------------------------------------------------- */
+
+export type MappingProfile = {
+  name: string;
+  signature: string; // normalized, sorted header list
+  mapping: ColumnMapping;
+  updatedAt: number;
+};
+
+const PROFILE_STORAGE_KEY = 'address-manager-pro:mapping-profiles';
+
+/**
+ * Identify a file layout independent of column order and casing, so a profile
+ * is picked again when the supplier re-sends the same structure.
+ */
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to read mapping profiles:', error);
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: MappingProfile[]): void {
+  try {
+    window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to store mapping profiles:', error);
+    throw new Error('Zuordnungsprofil konnte nicht gespeichert werden');
+  }
+}
+
+export function findProfileForHeaders(headers: string[]): MappingProfile | undefined {
+  const signature = headerSignature(headers);
+  return loadMappingProfiles().find(p => p.signature === signature);
+}
+
+/**
+ * Save (or overwrite by name) a profile. A profile replaces any other one
+ * with the same header signature, so auto-selection stays unambiguous.
+ */
+export function saveMappingProfile(name: string, headers: string[], mapping: ColumnMapping): MappingProfile {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Profilname fehlt');
+
+  const profile: MappingProfile = {
+    name: trimmed,
+    signature: headerSignature(headers),
+    mapping,
+    updatedAt: Date.now(),
+  };
+
+  const others = loadMappingProfiles().filter(p => p.name !== trimmed && p.signature !== profile.signature);
+  storeMappingProfiles([...others, profile]);
+  return profile;
+}
+
+export function deleteMappingProfile(name: string): void {
+  storeMappingProfiles(loadMappingProfiles().filter(p => p.name !== name));
+}
+
+/**
+ * Apply a saved profile to the actual headers. Headers are matched by their
+ * normalized form so small casing/spacing differences still resolve.
+ */
+export function applyMappingProfile(profile: MappingProfile, headers: string[]): ColumnMapping {
+  const byNormalized = new Map<string, ImportField | null>();
+  for (const [header, field] of Object.entries(profile.mapping)) byNormalized.set(normalizeHeader(header), field);
+
+  const mapping: ColumnMapping = {};
+  for (const header of headers) mapping[header] = byNormalized.get(normalizeHeader(header)) ?? null;
+  return mapping;
+}
@@ -1,4 +1,6 @@
 // lib/native.ts
+import type { NativeDirectory } from './types';
+import { downloadBlob } from './download';
 
 // Enhanced global interface with better typing
 declare global {
@@ -106,107 +108,50 @@ export function getPlatform(): 'ios' | 'android' | 'web' {
 }
 
 /* -------------------------------------------------------------------------- */
-/*                               XLSX lazy load                               */
-/* -------------------------------------------------------------------------- */
-
-let xlsxModuleCache: any = null;
-
-async function getXLSXModule(): Promise<any> {
-  if (xlsxModuleCache) return xlsxModuleCache;
-  try {
-    const mod: any = await import('xlsx');
-    xlsxModuleCache = mod?.default ?? mod;
-    return xlsxModuleCache;
-  } catch (error) {
-    console.error('Failed to load XLSX module:', error);
-    throw new Error('XLSX module is required for CSV generation');
-  }
-}
-
-/* -------------------------------------------------------------------------- */
-/*                         CSV transformation (native)                        */
+/*                         Native file IO + share sheet                        */
 /* -------------------------------------------------------------------------- */
 
-/**
- * Transform to CSV rows using the SAME headers as the web exporter,
- * so exports round-trip cleanly with your import FIELD_MAPPINGS.
- * (German column names retained for consistency.)
- */
-function transformAddressesToCSV(addresses: Array<Record<string, any>>): Record<string, any>[] {
-  const out = new Array(addresses.length);
-  const CHUNK_SIZE = 500;
-
-  for (let i = 0; i < addresses.length; i += CHUNK_SIZE) {
-    const chunk = addresses.slice(i, i + CHUNK_SIZE);
-    for (let j = 0; j < chunk.length; j++) {
-      const a = chunk[j];
-      out[i + j] = {
-        'adrcd-subcd': a.addressCode || '',
-        'Adresse': a.address || '',
-        'Region': a.region || '',
-        'ANO': a.ano || '',
-        'Status': a.status || '',
-        'Anzahl der Homes': a.homes ?? 0,
-        'Vertrag auf Adresse vorhanden oder L1-Angebot gesendet': a.contractStatus ?? 0,
-        'Preis Standardprodukt (€)': a.price ?? 0,
-        'Provisions-Kategorie': a.provisionCategory || '',
-        'Baufirma': a.buildingCompany || '',
-        'KG Nummer': a.kgNumber || '',
-        'Fertigstellung Bau (aktueller Plan)': a.completionPlanned || '',
-        'Fertigstellung Bau erfolgt': a.completionDone ? 'Yes' : '',
-        'D2D-Vertrieb Start': a.d2dStart || '',
-        'D2D-Vertrieb Ende': a.d2dEnd || '',
-        'Outdoor-Pauschale vorhanden': a.outdoorFee || '',
-        'Notes': a.notes || '',
-      };
-    }
+export type SaveFileOptions = {
+  directory?: NativeDirectory; // native only, default DOCUMENTS
+  shareText?: string; // text shown in the share sheet
+};
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so String.fromCharCode never hits the argument limit on large files
+  const CHUNK_SIZE = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
   }
-
-  return out;
+  return btoa(binary);
 }
 
-/* -------------------------------------------------------------------------- */
-/*                         Native file IO + share sheet                        */
-/* -------------------------------------------------------------------------- */
-
-async function saveAndShareNativeFile(
-  csvContent: string,
-  fileName: string,
-  addressCount: number
-): Promise<void> {
+async function saveAndShareNativeFile(blob: Blob, fileName: string, options: SaveFileOptions): Promise<void> {
   const cap = window.Capacitor!;
   const { Filesystem, Share } = cap.Plugins || {};
 
   if (!Filesystem || !Share) {
-    throw new Error('Required Capacitor plugins not available');
+    throw new Error('Dateisystem oder Teilen ist in dieser App-Version nicht verfügbar.');
   }
 
-  // Prepend BOM for Excel compatibility on mobile as well
-  const contentWithBOM = '\uFEFF' + csvContent;
-
+  const directory = options.directory ?? 'DOCUMENTS'; // string literal works at runtime, no Capacitor types needed
   // Basic filename hardening
   const safeFileName = fileName.replace(/[^\w.\-]+/g, '_');
 
   try {
-    await Filesystem.writeFile({
-      path: safeFileName,
-      data: contentWithBOM,
-      directory: 'DOCUMENTS', // avoids importing Capacitor types; string literal works at runtime
-      encoding: 'utf8',
-    });
+    // Without encoding the plugin expects base64 and writes the raw bytes - also for
+    // text, since blob.text() would drop the BOM Excel needs for umlauts in CSV
+    await Filesystem.writeFile({ path: safeFileName, data: await blobToBase64(blob), directory, recursive: true });
 
-    const uriResult = await Filesystem.getUri({
-      directory: 'DOCUMENTS',
-      path: safeFileName,
-    });
-
-    if (!uriResult?.uri) throw new Error('Failed to get file URI');
+    const uriResult = await Filesystem.getUri({ directory, path: safeFileName });
+    if (!uriResult?.uri) throw new Error('Dateipfad konnte nicht ermittelt werden');
 
     await Share.share({
       title: 'Address Manager Pro Export',
-      text: `Address data export - ${addressCount.toLocaleString()} addresses`,
+      text: options.shareText ?? safeFileName,
       url: uriResult.uri,
-      dialogTitle: 'Share Address Data',
+      dialogTitle: 'Export teilen',
     });
   } catch (error) {
     console.error('Native file operation failed:', error);
@@ -214,54 +159,35 @@ async function saveAndShareNativeFile(
   }
 }
 
+// Closing the share sheet without choosing a target is not an error
+function isShareCancelled(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /cancel/i.test(message);
+}
+
 /* -------------------------------------------------------------------------- */
-/*                          Public API: saveData… (native/web)                */
+/*                        Public API: saveFile… (native/web)                  */
 /* -------------------------------------------------------------------------- */
 
 /**
- * Enhanced save function with graceful web fallback.
- * Signature unchanged to avoid breaking callers.
+ * Hand a finished export to the user: inside the native app it is written to
+ * the chosen directory and offered in the share sheet, in the browser it is
+ * downloaded. Native failures are reported, never turned into a web download
+ * (which does nothing inside the app).
  */
-export async function saveDataToCSVNativeOrWeb(
-  addresses: any[],
-  webFallback: () => void | Promise<void>
-): Promise<void> {
-  if (!Array.isArray(addresses) || addresses.length === 0) {
-    throw new Error('No addresses provided for export');
-  }
-
-  // Prefer native path when available; otherwise fall back immediately
+export async function saveFileNativeOrWeb(blob: Blob, fileName: string, options: SaveFileOptions = {}): Promise<void> {
   if (!isNativeCapacitor()) {
-    return await webFallback();
-  }
-
-  const cap = window.Capacitor;
-  if (!cap?.Plugins?.Filesystem || !cap?.Plugins?.Share) {
-    return await webFallback();
+    downloadBlob(blob, fileName);
+    return;
   }
 
   try {
-    const xlsx = await getXLSXModule();
-
-    const rows = transformAddressesToCSV(addresses);
-    const ws = xlsx.utils.json_to_sheet(rows);
-    const csv = xlsx.utils.sheet_to_csv(ws, {
-      FS: ',',
-      RS: '\n',
-    });
-
-    const timestamp = new Date().toISOString().split('T')[0];
-    const fileName = `address-data-${timestamp}.csv`;
-
-    await saveAndShareNativeFile(csv, fileName, addresses.length);
+    await saveAndShareNativeFile(blob, fileName, options);
   } catch (error) {
-    // If native flow fails for any reason, try the web path
-    try {
-      await webFallback();
-    } catch (fallbackError) {
-      console.error('Web fallback also failed:', fallbackError);
-      throw new Error('Both native and web export methods failed');
-    }
+    if (isShareCancelled(error)) return;
+    throw new Error(
+      `Export auf dem Gerät fehlgeschlagen: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
 }
 
@@ -291,7 +217,6 @@ export function getAvailablePlugins(): {
 
 export function clearNativeCaches(): void {
   platformCache = {};
-  xlsxModuleCache = null;
 }
 
 export function getPlatformInfo(): {
@@ -0,0 +1,225 @@
+// lib/project.ts
+import type { Address, FacetFilters, GroupOption, ImportBatch, SortKey, ViewState } from './types';
+import { fileDateStamp } from './download';
+import { saveFileNativeOrWeb } from './native';
+import { addressBaseId, createIdAllocator, isLegacyId } from './ids';
+import { EMPTY_FACET_FILTERS, toFacetFilters } from './facets';
+import { toSortKeys } from './sort';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Marker so a random JSON file is not mistaken for a project
+const PROJECT_FORMAT = 'address-manager-pro/project';
+
+// Bump on every incompatible change and add a step to MIGRATIONS
+export const PROJECT_VERSION = 3;
+
+const GROUP_OPTIONS: readonly GroupOption[] = ['PLZ', 'Region'];
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  searchTerm: '',
+  facets: EMPTY_FACET_FILTERS,
+  groupBy: 'PLZ',
+  sortKeys: [
+    { field: 'plz', direction: 'asc' },
+    { field: 'address', direction: 'asc' },
+  ],
+  expandedGroups: [],
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type ProjectData = {
+  addresses: Address[]; // including notes and every other user-entered field
+  batches: ImportBatch[];
+  view: ViewState;
+};
+
+type ProjectFile = ProjectData & {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 Migrations                                 */
+/* -------------------------------------------------------------------------- */
+
+// Object fields of untrusted JSON; anything else reads as an empty object
+function asRecord(raw: unknown): Record<string, unknown> {
+  return (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+}
+
+// MIGRATIONS[n] lifts a parsed version-n file to version n + 1
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: the filter dropdown (view.filterBy) became the facet panel (view.facets)
+  1: file => {
+    const { filterBy, ...view } = asRecord(file.view);
+    return { ...file, view: { ...view, facets: legacyFilterToFacets(filterBy) } };
+  },
+  // v3: the single sort option (view.sortBy) became grouping plus sort keys
+  2: file => {
+    const { sortBy, ...view } = asRecord(file.view);
+    return { ...file, view: { ...view, ...legacySortToView(sortBy) } };
+  },
+};
+
+function legacyFilterToFacets(filterBy: unknown): FacetFilters {
+  switch (filterBy) {
+    case 'kein_vertrag':
+      return { selected: { contract: ['ohne'] }, ranges: {} };
+    case 'mit_vertrag':
+      return { selected: { contract: ['mit'] }, ranges: {} };
+    case 'has_notes':
+      return { selected: { notes: ['mit'] }, ranges: {} };
+    default:
+      return EMPTY_FACET_FILTERS;
+  }
+}
+
+function legacySortToView(sortBy: unknown): Pick<ViewState, 'groupBy' | 'sortKeys'> {
+  const byRegion = (sortKeys: SortKey[]) => ({ groupBy: 'Region' as const, sortKeys });
+  switch (sortBy) {
+    case 'Region':
+      return byRegion([{ field: 'region', direction: 'asc' }, { field: 'address', direction: 'asc' }]);
+    case 'Adresse':
+      return byRegion([{ field: 'address', direction: 'asc' }]);
+    case 'Anzahl der Homes':
+      return byRegion([{ field: 'homes', direction: 'desc' }]);
+    case 'Preis Standardprodukt (€)':
+      return byRegion([{ field: 'price', direction: 'desc' }]);
+    default:
+      return { groupBy: DEFAULT_VIEW_STATE.groupBy, sortKeys: DEFAULT_VIEW_STATE.sortKeys };
+  }
+}
+
+function migrate(file: Record<string, unknown>, version: number): Record<string, unknown> {
+  let current = file;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`Projektdatei-Version ${v} wird nicht unterstützt.`);
+    current = { ...step(current), version: v + 1 };
+  }
+  return current;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Validation                                 */
+/* -------------------------------------------------------------------------- */
+
+// Also sanitizes views read from the URL and from saved presets
+export function toViewState(raw: unknown): ViewState {
+  const v = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ViewState, unknown>>;
+  return {
+    searchTerm: typeof v.searchTerm === 'string' ? v.searchTerm : DEFAULT_VIEW_STATE.searchTerm,
+    facets: toFacetFilters(v.facets),
+    groupBy: GROUP_OPTIONS.includes(v.groupBy as GroupOption) ? (v.groupBy as GroupOption) : DEFAULT_VIEW_STATE.groupBy,
+    sortKeys: toSortKeys(v.sortKeys) ?? DEFAULT_VIEW_STATE.sortKeys,
+    expandedGroups: Array.isArray(v.expandedGroups) ? v.expandedGroups.filter((g): g is string => typeof g === 'string') : [],
+  };
+}
+
+// Rows without a usable string ID (hand-edited or very old files) get a fresh stable one
+function toAddresses(raw: unknown): Address[] {
+  if (!Array.isArray(raw)) throw new Error('Projektdatei enthält keine Adressliste.');
+
+  const rows = raw.filter((a): a is Address => Boolean(a) && typeof a === 'object' && typeof a.address === 'string');
+  const ids = createIdAllocator();
+  return rows.map(a => {
+    const id = !isLegacyId(a.id) && !ids.has(a.id) ? ids.allocate(a.id) : ids.allocate(addressBaseId(a));
+    return { ...a, id };
+  });
+}
+
+function toBatches(raw: unknown): ImportBatch[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((b): b is ImportBatch => Boolean(b) && typeof b === 'object' && typeof b.id === 'string');
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Compression                                  */
+/* -------------------------------------------------------------------------- */
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export function canCompressProjects(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function pipeThrough(data: Blob, transform: CompressionStream | DecompressionStream): Promise<Blob> {
+  return new Response(data.stream().pipeThrough(transform)).blob();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Serialize the working state. With compress the JSON is gzipped, which
+ * shrinks large portfolios to a fraction of their size.
+ */
+export async function createProjectBlob(data: ProjectData, compress = false): Promise<Blob> {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    addresses: data.addresses,
+    batches: data.batches,
+    view: data.view,
+  };
+  const json = new Blob([JSON.stringify(file)], { type: 'application/json' });
+  if (!compress || !canCompressProjects()) return json;
+  return new Blob([await pipeThrough(json, new CompressionStream('gzip'))], { type: 'application/gzip' });
+}
+
+export async function saveProjectFile(data: ProjectData, compress = false): Promise<void> {
+  const blob = await createProjectBlob(data, compress);
+  const gzipped = blob.type === 'application/gzip';
+  await saveFileNativeOrWeb(blob, `adressprojekt-${fileDateStamp()}.json${gzipped ? '.gz' : ''}`);
+  console.log(`Saved project with ${data.addresses.length.toLocaleString()} addresses`);
+}
+
+/**
+ * Read a project file (plain or gzipped JSON), check its format and version,
+ * migrate older versions and sanitize the contents.
+ */
+export async function readProjectFile(file: Blob): Promise<ProjectData> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  let source: Blob = file;
+  if (isGzip(head)) {
+    if (!canCompressProjects()) throw new Error('Komprimierte Projektdateien werden von diesem Browser nicht unterstützt.');
+    source = await pipeThrough(file, new DecompressionStream('gzip'));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await source.text());
+  } catch {
+    throw new Error('Die Datei ist keine gültige Projektdatei.');
+  }
+
+  const project = asRecord(parsed);
+  if (project.format !== PROJECT_FORMAT) throw new Error('Die Datei ist keine gültige Projektdatei.');
+  const { version } = project;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Projektdatei ohne gültige Versionsangabe.');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `Die Projektdatei stammt aus einer neueren Version (${version}). Bitte die App aktualisieren.`
+    );
+  }
+
+  const current = migrate(project, version);
+  return {
+    addresses: toAddresses(current.addresses),
+    batches: toBatches(current.batches),
+    view: toViewState(current.view),
+  };
+}
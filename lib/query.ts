@@ -0,0 +1,410 @@
+// lib/query.ts
+import type { Address } from './types';
+import { FIELD_SCHEMA, type FieldKind, normalizeNumberLike } from './schema';
+import { foldSearchText } from './search';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Character range [start, end) of the search text the message refers to
+export type QueryError = { start: number; end: number; message: string };
+
+// plz is passed in because it is derived from the address text (PLZ index)
+export type QueryMatcher = (address: Address, plz: string) => boolean;
+
+// Builds the matcher for words without field (normally backed by the search index);
+// quoted text ("In Betrieb") has to appear as one phrase
+export type FreeTextMatcherFactory = (text: string, quoted?: boolean) => QueryMatcher;
+
+export type ParsedQuery = {
+  matches: QueryMatcher | null; // null = empty query, every row matches
+  errors: QueryError[];
+};
+
+type Operator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; start: number; end: number }
+  | {
+      type: 'term';
+      start: number;
+      end: number;
+      field?: { name: string; start: number; end: number };
+      op?: Operator;
+      value: string;
+      quoted: boolean;
+    };
+
+type TermToken = Extract<Token, { type: 'term' }>;
+
+type QueryField = { property: keyof Address | 'plz'; kind: FieldKind };
+
+/* -------------------------------------------------------------------------- */
+/*                                   Fields                                   */
+/* -------------------------------------------------------------------------- */
+
+// Short German names in addition to the property names (homes, price, status, ...)
+const GERMAN_FIELD_NAMES: Record<string, keyof Address> = {
+  adresse: 'address',
+  code: 'addressCode',
+  firma: 'buildingCompany',
+  baufirma: 'buildingCompany',
+  notiz: 'notes',
+  notizen: 'notes',
+  preis: 'price',
+  vertrag: 'contractStatus',
+  provision: 'provisionCategory',
+  kg: 'kgNumber',
+  plan: 'completionPlanned',
+  fertig: 'completionDone',
+  outdoor: 'outdoorFee',
+};
+
+const QUERY_FIELDS: ReadonlyMap<string, QueryField> = (() => {
+  const map = new Map<string, QueryField>([['plz', { property: 'plz', kind: 'text' }]]);
+  const kinds = new Map<keyof Address, FieldKind>();
+  for (const spec of Object.values(FIELD_SCHEMA)) {
+    if (!spec.property) continue;
+    kinds.set(spec.property, spec.kind);
+    map.set(spec.property.toLowerCase(), { property: spec.property, kind: spec.kind });
+  }
+  for (const [name, property] of Object.entries(GERMAN_FIELD_NAMES)) {
+    map.set(name, { property, kind: kinds.get(property) ?? 'text' });
+  }
+  return map;
+})();
+
+// Field names shown in the search help
+export const QUERY_FIELD_NAMES: readonly string[] = [...QUERY_FIELDS.keys()];
+
+/* -------------------------------------------------------------------------- */
+/*                                  Tokenizer                                 */
+/* -------------------------------------------------------------------------- */
+
+const FIELD_PREFIX = /([A-Za-z0-9_äöüÄÖÜß]+)(>=|<=|!=|:|=|>|<)/y;
+const KEYWORDS: Record<string, 'or' | 'and' | 'not'> = { OR: 'or', AND: 'and', NOT: 'not' };
+
+const isSpace = (c: string) => /\s/.test(c);
+
+function tokenize(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Quoted phrase or bare word starting at i
+  const readValue = (): { value: string; quoted: boolean } => {
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ start: i, end: input.length, message: 'Anführungszeichen wird nicht geschlossen' });
+        const value = input.slice(i + 1);
+        i = input.length;
+        return { value, quoted: true };
+      }
+      const value = input.slice(i + 1, close);
+      i = close + 1;
+      return { value, quoted: true };
+    }
+    const from = i;
+    while (i < input.length && !isSpace(input[i]) && input[i] !== '(' && input[i] !== ')') i++;
+    return { value: input.slice(from, i), quoted: false };
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+    if (isSpace(c)) {
+      i++;
+      continue;
+    }
+    if (c === '(' || c === ')') {
+      tokens.push({ type: c === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    // "-term" negates; a lone "-" is searched as text
+    if (c === '-' && i + 1 < input.length && !isSpace(input[i + 1]) && input[i + 1] !== ')') {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    FIELD_PREFIX.lastIndex = i;
+    const prefix = FIELD_PREFIX.exec(input);
+    if (prefix) {
+      const field = { name: prefix[1], start, end: start + prefix[1].length };
+      i += prefix[0].length;
+      const { value, quoted } = readValue();
+      tokens.push({ type: 'term', start, end: i, field, op: prefix[2] as Operator, value, quoted });
+      continue;
+    }
+
+    const { value, quoted } = readValue();
+    const keyword = quoted ? undefined : KEYWORDS[value];
+    if (keyword) tokens.push({ type: keyword, start, end: i });
+    else tokens.push({ type: 'term', start, end: i, value, quoted });
+  }
+
+  return tokens;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Terms                                    */
+/* -------------------------------------------------------------------------- */
+
+const safe = (s?: string) => foldSearchText(s ?? '');
+const matchAll: QueryMatcher = () => true;
+
+function parseNumber(raw: string): number | null {
+  const s = normalizeNumberLike(raw);
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseBoolean(raw: string): boolean | null {
+  const s = raw.trim().toLowerCase();
+  if (['ja', 'yes', 'true', '1', 'x', 'y'].includes(s)) return true;
+  if (['nein', 'no', 'false', '0', 'n'].includes(s)) return false;
+  return null;
+}
+
+// Fallback without search index: substring over the main text columns and the PLZ
+function freeTextMatcher(value: string): QueryMatcher {
+  const q = foldSearchText(value);
+  const digits = q.replace(/\D/g, '');
+  if (!q) return matchAll;
+  return (a, plz) =>
+    safe(a.address).includes(q) ||
+    safe(a.region).includes(q) ||
+    safe(a.notes).includes(q) ||
+    safe(a.buildingCompany).includes(q) ||
+    (digits !== '' && plz.includes(digits));
+}
+
+function compileTerm(t: TermToken, errors: QueryError[], freeText: FreeTextMatcherFactory): QueryMatcher {
+  if (!t.field) return freeText(t.value, t.quoted);
+
+  const field = QUERY_FIELDS.get(t.field.name.toLowerCase());
+  if (!field) {
+    errors.push({ start: t.field.start, end: t.field.end, message: `Unbekanntes Feld „${t.field.name}“` });
+    return matchAll;
+  }
+  if (!t.value && !t.quoted) {
+    errors.push({ start: t.start, end: t.end, message: `Wert für „${t.field.name}“ fehlt` });
+    return matchAll;
+  }
+
+  const fail = (message: string): QueryMatcher => {
+    errors.push({ start: t.start, end: t.end, message });
+    return matchAll;
+  };
+  const op = t.op!;
+  const { property } = field;
+
+  switch (field.kind) {
+    case 'text': {
+      const text = (a: Address, plz: string) => (property === 'plz' ? plz : safe(a[property] as string | undefined));
+      const q = foldSearchText(t.value);
+      switch (op) {
+        case ':':
+          // field:"" finds empty fields
+          return q ? (a, plz) => text(a, plz).includes(q) : (a, plz) => text(a, plz).trim() === '';
+        case '=':
+          return (a, plz) => text(a, plz).trim() === q.trim();
+        case '!=':
+          return (a, plz) => text(a, plz).trim() !== q.trim();
+        default:
+          return fail(`„${t.field.name}“ ist kein Zahlenfeld – Vergleiche mit < oder > sind nicht möglich`);
+      }
+    }
+
+    case 'int':
+    case 'float': {
+      const num = (a: Address) => (a[property as keyof Address] as number | undefined) ?? 0;
+
+      // field:from..to, either bound may be left out
+      const range = op === ':' ? t.value.match(/^(.*?)\.\.(.*)$/) : null;
+      if (range) {
+        const from = range[1] ? parseNumber(range[1]) : -Infinity;
+        const to = range[2] ? parseNumber(range[2]) : Infinity;
+        if (from === null || to === null || (!range[1] && !range[2])) return fail('Bereich erwartet, z.B. 100..300');
+        return a => {
+          const n = num(a);
+          return n >= from && n <= to;
+        };
+      }
+
+      const n = parseNumber(t.value);
+      if (n === null) return fail(`Zahl für „${t.field.name}“ erwartet`);
+      switch (op) {
+        case ':':
+        case '=':
+          return a => num(a) === n;
+        case '!=':
+          return a => num(a) !== n;
+        case '>':
+          return a => num(a) > n;
+        case '>=':
+          return a => num(a) >= n;
+        case '<':
+          return a => num(a) < n;
+        case '<=':
+          return a => num(a) <= n;
+      }
+      break;
+    }
+
+    case 'boolean': {
+      const b = parseBoolean(t.value);
+      if (b === null) return fail(`„${t.field.name}“ erwartet ja oder nein`);
+      if (op === ':' || op === '=') return a => Boolean(a[property as keyof Address]) === b;
+      if (op === '!=') return a => Boolean(a[property as keyof Address]) !== b;
+      return fail(`„${t.field.name}“ erwartet ja oder nein`);
+    }
+  }
+
+  return matchAll;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Parser                                   */
+/* -------------------------------------------------------------------------- */
+
+function allOf(parts: QueryMatcher[]): QueryMatcher {
+  if (parts.length === 1) return parts[0];
+  return (a, plz) => {
+    for (const p of parts) if (!p(a, plz)) return false;
+    return true;
+  };
+}
+
+function anyOf(parts: QueryMatcher[]): QueryMatcher {
+  if (parts.length === 1) return parts[0];
+  return (a, plz) => {
+    for (const p of parts) if (p(a, plz)) return true;
+    return false;
+  };
+}
+
+/**
+ * Recursive descent over the tokens. Precedence: NOT / "-" binds tightest,
+ * then AND (also implicit between terms), then OR.
+ *
+ *   or    := and ("OR" and)*
+ *   and   := unary (["AND"] unary)*
+ *   unary := ("NOT" | "-") unary | "(" or ")" | term
+ */
+function parseTokens(tokens: Token[], errors: QueryError[], freeText: FreeTextMatcherFactory): QueryMatcher | null {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const atBoundary = () => !peek() || peek().type === 'rparen' || peek().type === 'or';
+
+  const parseUnary = (): QueryMatcher => {
+    const t = tokens[pos++];
+    if (t.type === 'not') {
+      if (atBoundary() || peek().type === 'and') {
+        errors.push({ start: t.start, end: t.end, message: 'Nach NOT bzw. „-“ fehlt ein Suchbegriff' });
+        return matchAll;
+      }
+      const inner = parseUnary();
+      return (a, plz) => !inner(a, plz);
+    }
+    if (t.type === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.type === 'rparen') pos++;
+      else errors.push({ start: t.start, end: t.end, message: 'Klammer wird nicht geschlossen' });
+      if (!inner) errors.push({ start: t.start, end: tokens[pos - 1].end, message: 'Leere Klammer' });
+      return inner ?? matchAll;
+    }
+    if (t.type === 'term') return compileTerm(t, errors, freeText);
+    // "and" right after another operator
+    errors.push({ start: t.start, end: t.end, message: `Unerwartetes ${t.type.toUpperCase()}` });
+    return matchAll;
+  };
+
+  const parseAnd = (): QueryMatcher | null => {
+    const parts: QueryMatcher[] = [];
+    while (!atBoundary()) {
+      const t = peek();
+      if (t.type === 'and') {
+        pos++;
+        if (parts.length === 0 || atBoundary() || peek().type === 'and') {
+          errors.push({ start: t.start, end: t.end, message: 'AND braucht einen Suchbegriff auf beiden Seiten' });
+        }
+        continue;
+      }
+      parts.push(parseUnary());
+    }
+    return parts.length ? allOf(parts) : null;
+  };
+
+  function parseOr(): QueryMatcher | null {
+    const parts: QueryMatcher[] = [];
+    for (;;) {
+      const part = parseAnd();
+      if (part) parts.push(part);
+      const t = peek();
+      if (t?.type !== 'or') {
+        return parts.length ? anyOf(parts) : null;
+      }
+      pos++;
+      if (!part || atBoundary()) {
+        errors.push({ start: t.start, end: t.end, message: 'OR braucht einen Suchbegriff auf beiden Seiten' });
+      }
+    }
+  }
+
+  // Stray ")" are reported and skipped, the rest is still parsed
+  const parts: QueryMatcher[] = [];
+  while (pos < tokens.length) {
+    const part = parseOr();
+    if (part) parts.push(part);
+    if (pos < tokens.length) {
+      const t = tokens[pos++];
+      errors.push({ start: t.start, end: t.end, message: 'Schließende Klammer ohne öffnende' });
+    }
+  }
+  return parts.length ? allOf(parts) : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Compile the search box text once; the returned matcher only does the per-row
+ * comparisons. Example: plz:4541 homes>=4 status:"In Betrieb" -notes:besucht
+ * (ano:xyz OR price:100..300). With syntax errors the whole text is used as
+ * plain search, so the list does not jump to empty while typing.
+ */
+export function parseQuery(input: string, freeText: FreeTextMatcherFactory = freeTextMatcher): ParsedQuery {
+  const errors: QueryError[] = [];
+  if (!input.trim()) return { matches: null, errors };
+
+  const matches = parseTokens(tokenize(input, errors), errors, freeText);
+  if (errors.length > 0) {
+    errors.sort((a, b) => a.start - b.start);
+    return { matches: freeText(input.trim()), errors };
+  }
+  return { matches, errors };
+}
+
+/**
+ * Split the search text into plain and erroneous parts for highlighting.
+ * Overlapping error ranges are merged.
+ */
+export function queryErrorSegments(input: string, errors: QueryError[]): Array<{ text: string; error: boolean }> {
+  const marked = new Array<boolean>(input.length).fill(false);
+  for (const e of errors) {
+    for (let i = Math.max(0, e.start); i < Math.min(input.length, Math.max(e.end, e.start + 1)); i++) marked[i] = true;
+  }
+
+  const segments: Array<{ text: string; error: boolean }> = [];
+  for (let i = 0; i < input.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.error === marked[i]) last.text += input[i];
+    else segments.push({ text: input[i], error: marked[i] });
+  }
+  return segments;
+}
@@ -0,0 +1,253 @@
+// lib/schema.ts
+import type { Address, ImportField } from './types';
+import { EXPORT_ID_HEADER } from './ids';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Parsing                                  */
+/* -------------------------------------------------------------------------- */
+
+// Normalize numbers that might contain thousand separators and commas: "1.234,5" -> "1234.5"
+export function normalizeNumberLike(value: unknown): string {
+  const s = String(value ?? '').trim();
+  // Remove spaces and thousands separators, convert comma to dot
+  return s.replace(/\s/g, '').replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.');
+}
+
+const parseIntCache = new Map<string, number>();
+const parseFloatCache = new Map<string, number>();
+
+export function safeParseInt(value: unknown, fallback = 0): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.trunc(value);
+  const key = normalizeNumberLike(value);
+  if (!key) return fallback;
+  const hit = parseIntCache.get(key);
+  if (hit !== undefined) return hit;
+  const parsed = parseInt(key, 10);
+  const out = Number.isFinite(parsed) ? parsed : fallback;
+  parseIntCache.set(key, out);
+  return out;
+}
+
+export function safeParseFloat(value: unknown, fallback = 0): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const key = normalizeNumberLike(value);
+  if (!key) return fallback;
+  const hit = parseFloatCache.get(key);
+  if (hit !== undefined) return hit;
+  const parsed = parseFloat(key);
+  const out = Number.isFinite(parsed) ? parsed : fallback;
+  parseFloatCache.set(key, out);
+  return out;
+}
+
+export function safeParseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  const s = String(value ?? '').trim().toLowerCase();
+  return s === 'yes' || s === 'true' || s === '1' || s === 'ja' || s === 'y' || s === 'x';
+}
+
+// Clear caches to prevent memory leaks with large datasets
+export function clearParseCaches(): void {
+  parseIntCache.clear();
+  parseFloatCache.clear();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Field codecs                                */
+/* -------------------------------------------------------------------------- */
+
+export type FieldKind = 'text' | 'int' | 'float' | 'boolean';
+
+type FieldCodec = {
+  kind: FieldKind;
+  parse: (raw: unknown) => string | number | boolean; // raw cell -> Address value
+  format: (value: unknown) => string | number; // Address value -> export cell
+};
+
+const TEXT: FieldCodec = {
+  kind: 'text',
+  parse: raw => (raw === undefined ? '' : String(raw)),
+  format: value => (value as string) || '',
+};
+
+const INT: FieldCodec = {
+  kind: 'int',
+  parse: raw => safeParseInt(raw, 0),
+  format: value => (value as number) ?? 0,
+};
+
+const FLOAT: FieldCodec = {
+  kind: 'float',
+  parse: raw => safeParseFloat(raw, 0),
+  format: value => (value as number) ?? 0,
+};
+
+const BOOLEAN: FieldCodec = {
+  kind: 'boolean',
+  parse: raw => safeParseBoolean(raw ?? false),
+  format: value => (value ? 'Yes' : ''),
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Schema                                   */
+/* -------------------------------------------------------------------------- */
+
+export type FieldSpec = FieldCodec & {
+  aliases: readonly string[]; // accepted import headers
+  exportLabel: string | null; // export header (also accepted on import), null = import only
+  property: keyof Address | null; // Address property filled from this column
+  providerOwned: boolean; // upsert imports may overwrite it
+};
+
+/**
+ * The one place that knows the spreadsheet columns. Import lookup, web export
+ * and native export are all generated from it; key order is the export order.
+ * l1OfferSent/salesContract only exist in supplier files and are combined
+ * into contractStatus, which is what the export writes back.
+ */
+export const FIELD_SCHEMA = {
+  addressCode: { ...TEXT, aliases: ['adrcd-subcd', 'ID'], exportLabel: 'adrcd-subcd', property: 'addressCode', providerOwned: false },
+  address: { ...TEXT, aliases: ['Adresse', 'Address'], exportLabel: 'Adresse', property: 'address', providerOwned: true },
+  region: { ...TEXT, aliases: ['Region'], exportLabel: 'Region', property: 'region', providerOwned: true },
+  ano: { ...TEXT, aliases: ['ANO', 'Provider'], exportLabel: 'ANO', property: 'ano', providerOwned: true },
+  status: { ...TEXT, aliases: ['Status'], exportLabel: 'Status', property: 'status', providerOwned: true },
+  homes: { ...INT, aliases: ['Anzahl der Homes', 'Homes'], exportLabel: 'Anzahl der Homes', property: 'homes', providerOwned: true },
+  contractStatus: {
+    ...INT,
+    aliases: ['Vertrag auf Adresse vorhanden oder L1-Angebot gesendet', 'Contract'],
+    exportLabel: 'Vertrag auf Adresse vorhanden oder L1-Angebot gesendet',
+    property: 'contractStatus',
+    providerOwned: true,
+  },
+  l1OfferSent: { ...INT, aliases: ['L1-Angebot gesendet'], exportLabel: null, property: null, providerOwned: true },
+  salesContract: { ...INT, aliases: ['Verkaufsauftrag vorhanden'], exportLabel: null, property: null, providerOwned: true },
+  price: { ...FLOAT, aliases: ['Preis Standardprodukt (€)', 'Price'], exportLabel: 'Preis Standardprodukt (€)', property: 'price', providerOwned: true },
+  provisionCategory: { ...TEXT, aliases: ['Provisions-Kategorie'], exportLabel: 'Provisions-Kategorie', property: 'provisionCategory', providerOwned: true },
+  buildingCompany: { ...TEXT, aliases: ['Baufirma'], exportLabel: 'Baufirma', property: 'buildingCompany', providerOwned: true },
+  kgNumber: { ...TEXT, aliases: ['KG Nummer'], exportLabel: 'KG Nummer', property: 'kgNumber', providerOwned: true },
+  completionPlanned: {
+    ...TEXT,
+    aliases: ['Fertigstellung Bau (aktueller Plan)'],
+    exportLabel: 'Fertigstellung Bau (aktueller Plan)',
+    property: 'completionPlanned',
+    providerOwned: true,
+  },
+  completionDone: {
+    ...BOOLEAN,
+    aliases: ['Fertigstellung Bau erfolgt'],
+    exportLabel: 'Fertigstellung Bau erfolgt',
+    property: 'completionDone',
+    providerOwned: true,
+  },
+  d2dStart: { ...TEXT, aliases: ['D2D-Vertrieb Start'], exportLabel: 'D2D-Vertrieb Start', property: 'd2dStart', providerOwned: true },
+  d2dEnd: { ...TEXT, aliases: ['D2D-Vertrieb Ende'], exportLabel: 'D2D-Vertrieb Ende', property: 'd2dEnd', providerOwned: true },
+  outdoorFee: {
+    ...TEXT,
+    aliases: ['Outdoor-Pauschale vorhanden'],
+    exportLabel: 'Outdoor-Pauschale vorhanden',
+    property: 'outdoorFee',
+    providerOwned: true,
+  },
+  notes: { ...TEXT, aliases: ['Notes'], exportLabel: 'Notes', property: 'notes', providerOwned: false },
+} as const satisfies Record<ImportField, FieldSpec>;
+
+export type FieldLookup = Record<ImportField, readonly string[]>;
+
+const SCHEMA_ENTRIES = Object.entries(FIELD_SCHEMA) as [ImportField, FieldSpec][];
+
+// Import header aliases per field (export label first, so exports always re-import)
+export const FIELD_ALIASES: FieldLookup = Object.fromEntries(
+  SCHEMA_ENTRIES.map(([field, spec]) => [
+    field,
+    spec.exportLabel && !spec.aliases.includes(spec.exportLabel) ? [spec.exportLabel, ...spec.aliases] : spec.aliases,
+  ])
+) as FieldLookup;
+
+// Exported fields in column order
+export const EXPORT_FIELDS: readonly ImportField[] = SCHEMA_ENTRIES.filter(([, spec]) => spec.exportLabel).map(([f]) => f);
+
+// Every export column in default order; the internal ID goes last
+export const EXPORT_COLUMNS: readonly string[] = [
+  ...EXPORT_FIELDS.map(f => FIELD_SCHEMA[f].exportLabel as string),
+  EXPORT_ID_HEADER,
+];
+
+export function fieldsOfKind(kind: FieldKind): ImportField[] {
+  return SCHEMA_ENTRIES.filter(([, spec]) => spec.kind === kind).map(([f]) => f);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Row conversion                               */
+/* -------------------------------------------------------------------------- */
+
+export function getFieldValue(row: Record<string, unknown>, fieldNames: readonly string[]): string {
+  for (const name of fieldNames) {
+    const v = row[name as keyof typeof row];
+    if (v !== undefined && v !== null && String(v).trim() !== '') return String(v);
+  }
+  return '';
+}
+
+// Like getFieldValue, but keeps numbers/booleans untouched for the parsers
+export function getRawFieldValue(row: Record<string, unknown>, fieldNames: readonly string[]): unknown {
+  for (const name of fieldNames) {
+    const v = row[name];
+    if (v !== undefined && v !== null && String(v).trim() !== '') return v;
+  }
+  return undefined;
+}
+
+/**
+ * Parse every schema column of a source row. The combined contract column
+ * wins when it holds a contract; otherwise the separate L1 / Verkaufsauftrag
+ * columns are combined.
+ */
+export function parseSchemaRow(row: Record<string, unknown>, fields: FieldLookup = FIELD_ALIASES): Omit<Address, 'id'> {
+  const out: Record<string, unknown> = {};
+  for (const [field, spec] of SCHEMA_ENTRIES) {
+    if (spec.property) out[spec.property] = spec.parse(getRawFieldValue(row, fields[field]));
+  }
+
+  if (!((out.contractStatus as number) > 0)) {
+    const l1Offer = safeParseInt(getRawFieldValue(row, fields.l1OfferSent), 0);
+    const salesContract = safeParseInt(getRawFieldValue(row, fields.salesContract), 0);
+    out.contractStatus = Math.max(l1Offer, salesContract);
+  }
+
+  return out as Omit<Address, 'id'>;
+}
+
+// One export row; numbers stay numbers so .xlsx cells are typed
+export function formatSchemaRow(a: Address): Record<string, string | number> {
+  const row: Record<string, string | number> = {};
+  for (const field of EXPORT_FIELDS) {
+    const spec: FieldSpec = FIELD_SCHEMA[field];
+    row[spec.exportLabel!] = spec.format(a[spec.property!]);
+  }
+  row[EXPORT_ID_HEADER] = a.id ?? '';
+  return row;
+}
+
+// Export header and export cell for a single Address property (delta export)
+export function exportLabelOf(property: keyof Address): string {
+  const spec = SCHEMA_ENTRIES.find(([, s]) => s.property === property)?.[1];
+  return spec?.exportLabel ?? String(property);
+}
+
+export function formatProperty(property: keyof Address, value: unknown): string | number {
+  const spec = SCHEMA_ENTRIES.find(([, s]) => s.property === property)?.[1];
+  return spec ? spec.format(value) : String(value ?? '');
+}
+
+// Write one field picked by a loop over Address keys, keeping value and key types together
+export function assignField<K extends keyof Address>(target: Partial<Address>, key: K, value: Address[K]): void {
+  target[key] = value;
+}
+
+// Provider-owned field -> Address property, for upsert comparisons
+export function providerOwnedSources(): Array<[ImportField, keyof Address]> {
+  return SCHEMA_ENTRIES.filter(([, spec]) => spec.providerOwned).map(([field, spec]) => [
+    field,
+    spec.property ?? 'contractStatus',
+  ]);
+}
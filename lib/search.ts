@@ -0,0 +1,284 @@
+// lib/search.ts
+import type { Address } from './types';
+import { FIELD_SCHEMA } from './schema';
+import { foldText } from './street';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Every text column is searchable; numbers are searched with the query syntax (homes>=4)
+const SEARCH_FIELDS: readonly (keyof Address)[] = Object.values(FIELD_SCHEMA)
+  .filter(spec => spec.kind === 'text' && spec.property)
+  .map(spec => spec.property!);
+
+// Hits in identifying fields rank above hits in free-text fields
+const FIELD_WEIGHTS: Partial<Record<keyof Address, number>> = {
+  address: 5,
+  addressCode: 5,
+  region: 3,
+  kgNumber: 3,
+  ano: 2,
+  status: 2,
+  provisionCategory: 2,
+  buildingCompany: 2,
+};
+const DEFAULT_WEIGHT = 1;
+
+// A whole-word hit counts twice as much as a prefix hit, a hit inside a word half as much
+const EXACT_FACTOR = 2;
+const INFIX_FACTOR = 0.5;
+
+// Shorter query words only match word starts; "ss" inside a word would hit nearly every row
+const MIN_INFIX_LENGTH = 3;
+
+// More changed rows than this re-sort the token list (or rebuild) instead of updating one by one
+const BULK_THRESHOLD = 1000;
+
+// Distinct field values whose tokens are kept between rows
+const TOKEN_CACHE_LIMIT = 50_000;
+
+/* -------------------------------------------------------------------------- */
+/*                                Tokenizing                                  */
+/* -------------------------------------------------------------------------- */
+
+const UMLAUTS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss' };
+
+/**
+ * Same result as foldText, but Unicode normalization (the expensive part) only
+ * runs for text that is still non-ASCII after the German umlauts are replaced.
+ */
+export function foldSearchText(s: string): string {
+  const lower = s.toLowerCase().replace(/[äöüß]/g, ch => UMLAUTS[ch]);
+  return /^[\x00-\x7f]*$/.test(lower) ? lower : foldText(lower);
+}
+
+/**
+ * Lowercased, diacritic-free word tokens: "Hauptstraße 12a" -> hauptstrasse, 12a.
+ * Query text and indexed text go through the same function.
+ */
+export function searchTokens(text: string): string[] {
+  return foldSearchText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Index                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Token index over all text fields. Each token maps to the rows containing it
+ * and the best field weight it has there; a sorted token list answers prefix
+ * queries by binary search. Rows live in numbered slots so posting lists stay
+ * plain arrays. sync() only re-tokenizes rows whose object changed, so a
+ * single edit costs one row, not a rebuild.
+ */
+export function createSearchIndex() {
+  const postings = new Map<string, { slots: number[]; weights: number[] }>();
+  const slotOf = new Map<string, number>(); // row id -> slot
+  const rows: (Address | undefined)[] = []; // slot -> indexed row object
+  const rowTokens: string[][] = []; // slot -> its tokens, for removal
+  const freeSlots: number[] = [];
+  let sorted: string[] | null = []; // null = rebuild on the next search
+  // Region, status, ANO ... repeat across rows; tokenize each distinct value once
+  const tokenCache = new Map<string, string[]>();
+
+  const lowerBound = (list: string[], token: string) => {
+    let lo = 0;
+    let hi = list.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (list[mid] < token) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const unlink = (slot: number) => {
+    for (const token of rowTokens[slot] ?? []) {
+      const posting = postings.get(token);
+      if (!posting) continue;
+      // Swap-remove, order inside a posting list does not matter
+      const i = posting.slots.indexOf(slot);
+      const last = posting.slots.length - 1;
+      posting.slots[i] = posting.slots[last];
+      posting.weights[i] = posting.weights[last];
+      posting.slots.pop();
+      posting.weights.pop();
+      if (last === 0) {
+        postings.delete(token);
+        if (sorted) sorted.splice(lowerBound(sorted, token), 1);
+      }
+    }
+    rowTokens[slot] = [];
+  };
+
+  const remove = (id: string) => {
+    const slot = slotOf.get(id);
+    if (slot === undefined) return;
+    unlink(slot);
+    rows[slot] = undefined;
+    slotOf.delete(id);
+    freeSlots.push(slot);
+  };
+
+  const add = (address: Address) => {
+    let slot = slotOf.get(address.id);
+    if (slot !== undefined) unlink(slot);
+    else {
+      slot = freeSlots.pop() ?? rows.length;
+      slotOf.set(address.id, slot);
+    }
+
+    // A row has few tokens - arrays beat a Map here
+    const tokens: string[] = [];
+    const weights: number[] = [];
+    for (const field of SEARCH_FIELDS) {
+      const value = address[field];
+      if (typeof value !== 'string' || !value) continue;
+      const weight = FIELD_WEIGHTS[field] ?? DEFAULT_WEIGHT;
+      let valueTokens = tokenCache.get(value);
+      if (!valueTokens) {
+        valueTokens = searchTokens(value);
+        if (tokenCache.size < TOKEN_CACHE_LIMIT) tokenCache.set(value, valueTokens);
+      }
+      for (const token of valueTokens) {
+        const i = tokens.indexOf(token);
+        if (i === -1) {
+          tokens.push(token);
+          weights.push(weight);
+        } else if (weight > weights[i]) {
+          weights[i] = weight;
+        }
+      }
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      let posting = postings.get(tokens[i]);
+      if (!posting) {
+        posting = { slots: [], weights: [] };
+        postings.set(tokens[i], posting);
+        if (sorted) sorted.splice(lowerBound(sorted, tokens[i]), 0, tokens[i]);
+      }
+      posting.slots.push(slot);
+      posting.weights.push(weights[i]);
+    }
+    rowTokens[slot] = tokens;
+    rows[slot] = address;
+  };
+
+  const clear = () => {
+    postings.clear();
+    slotOf.clear();
+    rows.length = 0;
+    rowTokens.length = 0;
+    freeSlots.length = 0;
+    sorted = null;
+  };
+
+  /**
+   * Best weight per slot over all indexed tokens starting with the query token.
+   * Compound words are one token ("bahnhofstrasse"), so longer query tokens
+   * also match inside a word - found by a scan over the distinct tokens, which
+   * are far fewer than rows.
+   */
+  const matchToken = (token: string): Map<number, number> => {
+    if (!sorted) sorted = [...postings.keys()].sort();
+    const hits = new Map<number, number>();
+    const collect = (indexed: string, factor: number) => {
+      const { slots, weights } = postings.get(indexed)!;
+      for (let j = 0; j < slots.length; j++) {
+        const score = weights[j] * factor;
+        if (score > (hits.get(slots[j]) ?? 0)) hits.set(slots[j], score);
+      }
+    };
+
+    for (let i = lowerBound(sorted, token); i < sorted.length && sorted[i].startsWith(token); i++) {
+      collect(sorted[i], sorted[i] === token ? EXACT_FACTOR : 1);
+    }
+    if (token.length >= MIN_INFIX_LENGTH) {
+      for (const indexed of sorted) {
+        // Prefix hits were collected above with the higher factor; the max is kept
+        if (indexed.indexOf(token, 1) !== -1) collect(indexed, INFIX_FACTOR);
+      }
+    }
+    return hits;
+  };
+
+  // Whether one field of the row holds the phrase as whole words in a row: " in betrieb " in "100 In Betrieb"
+  const containsPhrase = (address: Address, phrase: string) =>
+    SEARCH_FIELDS.some(field => {
+      const value = address[field];
+      if (typeof value !== 'string' || !value) return false;
+      return ` ${(tokenCache.get(value) ?? searchTokens(value)).join(' ')} `.includes(phrase);
+    });
+
+  return {
+    add,
+    remove,
+
+    /** Bring the index in line with the current rows (insert, edit, delete). */
+    sync(addresses: readonly Address[]): void {
+      const changed = addresses.filter(a => {
+        const slot = slotOf.get(a.id);
+        return slot === undefined || rows[slot] !== a;
+      });
+      const added = changed.filter(a => !slotOf.has(a.id)).length;
+      // Every indexed row is still there unless the counts disagree
+      const present = addresses.length - added === slotOf.size ? null : new Set(addresses.map(a => a.id));
+      const removed = present ? [...slotOf.keys()].filter(id => !present.has(id)) : [];
+
+      // Removing means scanning posting lists; after a large rollback a rebuild is cheaper
+      if (removed.length > BULK_THRESHOLD) {
+        clear();
+        for (const a of addresses) add(a);
+        return;
+      }
+      // Large imports: skip the sorted inserts and sort once on the next search
+      if (changed.length > BULK_THRESHOLD) sorted = null;
+      for (const id of removed) remove(id);
+      for (const a of changed) add(a);
+    },
+
+    /**
+     * Rows matching every word of the text (as word prefix or, from three
+     * letters, inside a word) by id, with a relevance score. With phrase the
+     * whole words must also follow each other in one field ("In Betrieb"); the
+     * index only narrows the rows to check. null when the text has nothing
+     * searchable (only punctuation).
+     */
+    search(text: string, phrase = false): Map<string, number> | null {
+      const words = searchTokens(text);
+      const tokens = [...new Set(words)];
+      if (tokens.length === 0) return null;
+
+      let result: Map<number, number> | null = null;
+      for (const token of tokens) {
+        const hits = matchToken(token);
+        if (!result) {
+          result = hits;
+          continue;
+        }
+        for (const [slot, score] of result) {
+          const hit = hits.get(slot);
+          if (hit === undefined) result.delete(slot);
+          else result.set(slot, score + hit);
+        }
+        if (result.size === 0) break;
+      }
+
+      const joined = ` ${words.join(' ')} `;
+      const byId = new Map<string, number>();
+      for (const [slot, score] of result!) {
+        if (phrase && !containsPhrase(rows[slot]!, joined)) continue;
+        byId.set(rows[slot]!.id, score);
+      }
+      return byId;
+    },
+
+    get size(): number {
+      return slotOf.size;
+    },
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,189 @@
+// lib/sort.ts
+import type { Address, ImportField, SortDirection, SortField, SortKey } from './types';
+import { FIELD_SCHEMA, type FieldKind } from './schema';
+import { IMPORT_FIELD_LABELS } from './mapping';
+import { normalizeHouseNumber, splitStreetAndNumber } from './street';
+import { parseCalendarDate } from './calendar';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+// Every Address column of the schema, plus PLZ and house number taken from the address
+const SCHEMA_SORT_FIELDS = (Object.keys(FIELD_SCHEMA) as ImportField[]).filter(
+  (f): f is Exclude<SortField, 'plz' | 'houseNumber'> => FIELD_SCHEMA[f].property !== null
+);
+
+export const SORT_FIELDS: ReadonlyArray<{ field: SortField; label: string }> = [
+  ...SCHEMA_SORT_FIELDS.map(field => ({ field, label: IMPORT_FIELD_LABELS[field] })),
+  { field: 'plz', label: 'PLZ' },
+  { field: 'houseNumber', label: 'Hausnummer' },
+];
+
+const SORT_FIELD_SET = new Set<string>(SORT_FIELDS.map(f => f.field));
+
+// Text columns holding dates in supplier formats ("31.05.2024", "2024-05-31", Excel serials)
+const DATE_FIELDS = new Set<SortField>(['completionPlanned', 'd2dStart', 'd2dEnd']);
+
+// Numeric collation puts "2" before "10" in codes, KG numbers and house numbers
+const collator = new Intl.Collator('de', { numeric: true, sensitivity: 'base' });
+
+/* -------------------------------------------------------------------------- */
+/*                                 Sort keys                                  */
+/* -------------------------------------------------------------------------- */
+
+function fieldKind(field: SortField): FieldKind {
+  return field === 'plz' || field === 'houseNumber' ? 'text' : FIELD_SCHEMA[field].kind;
+}
+
+// Counts and prices start with the largest value, everything else A-Z
+export function defaultDirection(field: SortField): SortDirection {
+  const kind = fieldKind(field);
+  return kind === 'int' || kind === 'float' ? 'desc' : 'asc';
+}
+
+export function sortFieldLabel(field: SortField): string {
+  return SORT_FIELDS.find(f => f.field === field)?.label ?? field;
+}
+
+/**
+ * Header click: sort by this field only, or flip its direction when it is
+ * already the only key. With additive (shift-click) the field is appended as
+ * a further key, or its direction flipped when it is already one.
+ */
+export function toggleSortKey(keys: readonly SortKey[], field: SortField, additive: boolean): SortKey[] {
+  const flip = (k: SortKey): SortKey => ({ ...k, direction: k.direction === 'asc' ? 'desc' : 'asc' });
+  if (additive) {
+    return keys.some(k => k.field === field)
+      ? keys.map(k => (k.field === field ? flip(k) : k))
+      : [...keys, { field, direction: defaultDirection(field) }];
+  }
+  if (keys.length === 1 && keys[0].field === field) return [flip(keys[0])];
+  return [{ field, direction: defaultDirection(field) }];
+}
+
+export function sameSortKeys(a: readonly SortKey[], b: readonly SortKey[]): boolean {
+  return a.length === b.length && a.every((k, i) => k.field === b[i].field && k.direction === b[i].direction);
+}
+
+// Sort keys from a project file, URL or preset; unknown fields and repeats are dropped
+export function toSortKeys(raw: unknown): SortKey[] | null {
+  if (!Array.isArray(raw)) return null;
+  const keys: SortKey[] = [];
+  for (const k of raw) {
+    if (!k || typeof k !== 'object' || !SORT_FIELD_SET.has(k.field)) continue;
+    if (keys.some(existing => existing.field === k.field)) continue;
+    keys.push({ field: k.field, direction: k.direction === 'desc' ? 'desc' : 'asc' });
+  }
+  return keys;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Comparing                                  */
+/* -------------------------------------------------------------------------- */
+
+type AddressParts = { street: string; house: string; rest: string };
+
+// Runs once per compared value - only trims text that starts with whitespace
+const isBlank = (s: string | undefined) => !s || (s.charCodeAt(0) <= 32 && !s.trim());
+
+/**
+ * Comparator for the given keys, each ascending or descending. Empty values
+ * go last in both directions. Addresses compare by street, then naturally by
+ * house number (2 < 2a < 10 < 10a), then by the rest (PLZ, city). Date
+ * columns compare by calendar day.
+ */
+export function createAddressComparator(
+  keys: readonly SortKey[],
+  plzOf: (address: Address) => string
+): (a: Address, b: Address) => number {
+  // Splitting addresses is the expensive part; each row is split once per comparator.
+  // House numbers are normalized like compareHouseNumbers does, so the collator gives its order.
+  const parts = new Map<Address, AddressParts>();
+  const partsOf = (a: Address): AddressParts => {
+    let p = parts.get(a);
+    if (!p) {
+      const split = splitStreetAndNumber(a.address);
+      p = { street: split.street, house: normalizeHouseNumber(split.houseNumber), rest: split.rest };
+      parts.set(a, p);
+    }
+    return p;
+  };
+
+  // Date text as yyyymmdd number, parsed once per distinct value; NaN when it is no date
+  const days = new Map<string, number>();
+  const dayOf = (s: string | undefined): number => {
+    if (isBlank(s)) return NaN;
+    let n = days.get(s!);
+    if (n === undefined) {
+      const d = parseCalendarDate(s);
+      n = d ? d.year * 10_000 + d.month * 100 + d.day : NaN;
+      days.set(s!, n);
+    }
+    return n;
+  };
+
+  const compareText = (x: string | undefined, y: string | undefined, sign: number) => {
+    const ex = isBlank(x);
+    const ey = isBlank(y);
+    if (ex || ey) return ex === ey ? 0 : ex ? 1 : -1;
+    return x === y ? 0 : sign * collator.compare(x!, y!);
+  };
+
+  const comparators = keys.map(({ field, direction }) => {
+    const sign = direction === 'desc' ? -1 : 1;
+    switch (field) {
+      case 'address':
+        return (a: Address, b: Address) => {
+          const pa = partsOf(a);
+          const pb = partsOf(b);
+          return (
+            compareText(pa.street, pb.street, sign) ||
+            compareText(pa.house, pb.house, sign) ||
+            compareText(pa.rest, pb.rest, sign)
+          );
+        };
+      case 'houseNumber':
+        return (a: Address, b: Address) => compareText(partsOf(a).house, partsOf(b).house, sign);
+      case 'plz':
+        return (a: Address, b: Address) => compareText(plzOf(a), plzOf(b), sign);
+    }
+
+    // Unreadable dates go last like empty ones, in text order among themselves
+    if (DATE_FIELDS.has(field)) {
+      return (a: Address, b: Address) => {
+        const sx = a[field] as string | undefined;
+        const sy = b[field] as string | undefined;
+        const x = dayOf(sx);
+        const y = dayOf(sy);
+        const nx = Number.isNaN(x);
+        const ny = Number.isNaN(y);
+        if (nx || ny) return nx && ny ? compareText(sx, sy, sign) : nx ? 1 : -1;
+        return sign * (x - y);
+      };
+    }
+
+    switch (FIELD_SCHEMA[field].kind) {
+      case 'int':
+      case 'float':
+        return (a: Address, b: Address) => {
+          const x = a[field] as number | undefined;
+          const y = b[field] as number | undefined;
+          if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+          return sign * (x - y);
+        };
+      case 'boolean':
+        return (a: Address, b: Address) => sign * (Number(Boolean(a[field])) - Number(Boolean(b[field])));
+      default:
+        return (a: Address, b: Address) => compareText(a[field] as string | undefined, b[field] as string | undefined, sign);
+    }
+  });
+
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,336 @@
+// lib/storage.ts
+import type { Address, ImportBatch } from './types';
+import { addressBaseId, createIdAllocator, isLegacyId } from './ids';
+
+/* -------------------------------------------------------------------------- */
+/*                              IndexedDB settings                            */
+/* -------------------------------------------------------------------------- */
+
+const DB_NAME = 'address-manager-pro';
+const DB_VERSION = 2;
+const ADDRESS_STORE = 'addresses';
+const BATCH_STORE = 'batches'; // since v2: import history
+
+// Large imports are written in several transactions so a single put batch
+// never holds the whole 78K+ dataset in one pending request queue.
+const WRITE_CHUNK_SIZE = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Utilities                                  */
+/* -------------------------------------------------------------------------- */
+
+export function isStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+/**
+ * True if the error was raised because the browser ran out of storage quota.
+ * Browsers disagree on the exact shape, so check name and legacy codes.
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const e = error as { name?: string; code?: number };
+  return (
+    e.name === 'QuotaExceededError' ||
+    e.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    e.code === 22 ||
+    e.code === 1014
+  );
+}
+
+function toStorageError(error: unknown, action: string): Error {
+  if (isQuotaError(error)) {
+    const err = new Error(`Speicherplatz erschöpft beim ${action}. Bitte alte Daten exportieren und entfernen.`);
+    err.name = 'QuotaExceededError';
+    return err;
+  }
+  return new Error(
+    `Speicherfehler beim ${action}: ${error instanceof Error ? error.message : String(error ?? 'Unbekannter Fehler')}`
+  );
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Database access                              */
+/* -------------------------------------------------------------------------- */
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1 && !db.objectStoreNames.contains(ADDRESS_STORE)) {
+        db.createObjectStore(ADDRESS_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 2 && !db.objectStoreNames.contains(BATCH_STORE)) {
+        db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      // Ask the browser not to evict the portfolio under storage pressure
+      navigator.storage?.persist?.().catch(() => undefined);
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Re-key rows stored with the old numeric timestamp IDs. The key path is the
+ * ID itself, so every legacy row is deleted and written again under its new key.
+ */
+async function migrateLegacyIds(db: IDBDatabase, all: Address[]): Promise<Address[]> {
+  const legacy = all.filter(a => isLegacyId(a.id));
+  if (legacy.length === 0) return all;
+
+  const ids = createIdAllocator(all.filter(a => !isLegacyId(a.id)).map(a => a.id));
+  const renamed = new Map<unknown, Address>();
+  for (const a of legacy) renamed.set(a.id, { ...a, id: ids.allocate(addressBaseId(a)) });
+
+  for (let i = 0; i < legacy.length; i += WRITE_CHUNK_SIZE) {
+    const tx = db.transaction(ADDRESS_STORE, 'readwrite');
+    const store = tx.objectStore(ADDRESS_STORE);
+    for (const old of legacy.slice(i, i + WRITE_CHUNK_SIZE)) {
+      store.delete(old.id as IDBValidKey);
+      store.put(renamed.get(old.id)!);
+    }
+    await transactionDone(tx);
+  }
+
+  console.log(`Migrated ${legacy.length.toLocaleString()} addresses to stable IDs`);
+  return all.map(a => renamed.get(a.id) ?? a);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+export async function loadAddresses(): Promise<Address[]> {
+  if (!isStorageAvailable()) return [];
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(ADDRESS_STORE, 'readonly');
+    const stored = await requestToPromise(tx.objectStore(ADDRESS_STORE).getAll() as IDBRequest<Address[]>);
+    const all = await migrateLegacyIds(db, stored);
+    console.log(`Restored ${all.length.toLocaleString()} addresses from local storage`);
+    return all;
+  } catch (error) {
+    console.error('Failed to load addresses from IndexedDB:', error);
+    throw toStorageError(error, 'Laden');
+  }
+}
+
+/**
+ * Insert or overwrite the given addresses. Used after imports, so only the
+ * new rows are written instead of the full portfolio.
+ */
+export async function saveAddresses(addresses: Address[]): Promise<void> {
+  if (!isStorageAvailable() || addresses.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+
+    for (let i = 0; i < addresses.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = addresses.slice(i, i + WRITE_CHUNK_SIZE);
+      const tx = db.transaction(ADDRESS_STORE, 'readwrite');
+      const store = tx.objectStore(ADDRESS_STORE);
+      for (const address of chunk) store.put(address);
+      await transactionDone(tx);
+    }
+  } catch (error) {
+    console.error('Failed to save addresses to IndexedDB:', error);
+    throw toStorageError(error, 'Speichern');
+  }
+}
+
+/**
+ * Apply a partial update to a single stored address. Reads and writes in one
+ * transaction so concurrent edits of different rows never overwrite each other.
+ * A function patch receives the stored record and returns the new one.
+ */
+export async function updateStoredAddress(
+  id: string,
+  patch: Partial<Address> | ((current: Address) => Address)
+): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(ADDRESS_STORE, 'readwrite');
+    const store = tx.objectStore(ADDRESS_STORE);
+    const current = await requestToPromise(store.get(id) as IDBRequest<Address | undefined>);
+    if (current) {
+      const next = typeof patch === 'function' ? patch(current) : { ...current, ...patch };
+      store.put({ ...next, id: current.id });
+    }
+    await transactionDone(tx);
+  } catch (error) {
+    console.error(`Failed to update address ${id} in IndexedDB:`, error);
+    throw toStorageError(error, 'Speichern');
+  }
+}
+
+/**
+ * Bulk variant of updateStoredAddress for import upserts: every patch is merged
+ * into the stored record, so fields not in the patch (e.g. notes) stay as they are.
+ * A function patch receives the stored record and returns its replacement.
+ */
+export async function patchStoredAddresses(
+  patches: Array<{ id: string; patch: Partial<Address> | ((current: Address) => Address) }>
+): Promise<void> {
+  if (!isStorageAvailable() || patches.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+
+    for (let i = 0; i < patches.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = patches.slice(i, i + WRITE_CHUNK_SIZE);
+      const tx = db.transaction(ADDRESS_STORE, 'readwrite');
+      const store = tx.objectStore(ADDRESS_STORE);
+      for (const { id, patch } of chunk) {
+        const req = store.get(id) as IDBRequest<Address | undefined>;
+        req.onsuccess = () => {
+          if (!req.result) return;
+          const next = typeof patch === 'function' ? patch(req.result) : { ...req.result, ...patch };
+          store.put({ ...next, id: req.result.id });
+        };
+      }
+      await transactionDone(tx);
+    }
+  } catch (error) {
+    console.error('Failed to patch addresses in IndexedDB:', error);
+    throw toStorageError(error, 'Speichern');
+  }
+}
+
+export async function clearStoredAddresses(): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([ADDRESS_STORE, BATCH_STORE], 'readwrite');
+    tx.objectStore(ADDRESS_STORE).clear();
+    tx.objectStore(BATCH_STORE).clear();
+    await transactionDone(tx);
+  } catch (error) {
+    console.error('Failed to clear IndexedDB:', error);
+    throw toStorageError(error, 'Löschen');
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Import history                               */
+/* -------------------------------------------------------------------------- */
+
+export async function loadImportBatches(): Promise<ImportBatch[]> {
+  if (!isStorageAvailable()) return [];
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(BATCH_STORE, 'readonly');
+    const all = await requestToPromise(tx.objectStore(BATCH_STORE).getAll() as IDBRequest<ImportBatch[]>);
+    return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Failed to load import history from IndexedDB:', error);
+    throw toStorageError(error, 'Laden');
+  }
+}
+
+export async function saveImportBatch(batch: ImportBatch): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(BATCH_STORE, 'readwrite');
+    tx.objectStore(BATCH_STORE).put(batch);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error('Failed to save import batch to IndexedDB:', error);
+    throw toStorageError(error, 'Speichern');
+  }
+}
+
+/**
+ * Roll back an import: delete the batch record together with the given rows
+ * in one transaction, so history and portfolio never disagree.
+ */
+export async function removeImportBatch(batchId: string, addressIds: string[]): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([ADDRESS_STORE, BATCH_STORE], 'readwrite');
+    const store = tx.objectStore(ADDRESS_STORE);
+    for (const id of addressIds) store.delete(id);
+    tx.objectStore(BATCH_STORE).delete(batchId);
+    await transactionDone(tx);
+  } catch (error) {
+    console.error(`Failed to remove import batch ${batchId} from IndexedDB:`, error);
+    throw toStorageError(error, 'Löschen');
+  }
+}
+
+/**
+ * Swap the whole local state for an opened project file: both stores are
+ * cleared and refilled in one transaction, so a failed write (quota, closed
+ * tab) leaves the previous data in place instead of an empty portfolio.
+ */
+export async function replaceStoredData(addresses: Address[], batches: ImportBatch[]): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([ADDRESS_STORE, BATCH_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    try {
+      const addressStore = tx.objectStore(ADDRESS_STORE);
+      addressStore.clear();
+      for (const address of addresses) addressStore.put(address);
+      const batchStore = tx.objectStore(BATCH_STORE);
+      batchStore.clear();
+      for (const batch of batches) batchStore.put(batch);
+    } catch (error) {
+      // A row that cannot be stored must not commit the clear
+      tx.abort();
+      done.catch(() => undefined);
+      throw error;
+    }
+    await done;
+  } catch (error) {
+    console.error('Failed to replace IndexedDB contents:', error);
+    throw toStorageError(error, 'Speichern');
+  }
+}
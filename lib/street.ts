@@ -0,0 +1,96 @@
+// lib/street.ts
+
+/* -------------------------------------------------------------------------- */
+/*                              Text normalization                            */
+/* -------------------------------------------------------------------------- */
+
+const UMLAUTS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss' };
+
+/**
+ * Lowercase and fold German umlauts/ß to their ASCII spelling, then strip any
+ * remaining diacritics, so "Grüner Weg" and "Gruener Weg" compare equal.
+ */
+export function foldText(s: string): string {
+  return s
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[äöüß]/g, ch => UMLAUTS[ch])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+// Common street type spellings -> one canonical token
+const STREET_SUFFIXES: ReadonlyArray<[RegExp, string]> = [
+  [/(strasse|str\.?)$/, 'str'],
+  [/(gasse|g\.)$/, 'gasse'],
+  [/(platz|pl\.)$/, 'platz'],
+  [/(weg)$/, 'weg'],
+  [/(allee)$/, 'allee'],
+];
+
+/* -------------------------------------------------------------------------- */
+/*                          Street / house number split                       */
+/* -------------------------------------------------------------------------- */
+
+// "5", "5a", "5 a", "5/2", "5-7", "12A/3/4"
+const HOUSE_NUMBER_RE = /^(.*?)[\s,]+(\d+(?:\s*[a-z])?(?:\s*[-/]\s*\d+(?:\s*[a-z])?)*)$/i;
+
+export type StreetParts = {
+  street: string; // street text as written
+  houseNumber: string; // as written, '' if none found
+  rest: string; // everything after the first comma (PLZ, city, ...)
+};
+
+/**
+ * Split "Emsenhuber Straße 1a, 4541, Adlwang" into street, number and the rest.
+ */
+export function splitStreetAndNumber(address: string): StreetParts {
+  const text = (address ?? '').trim();
+  const comma = text.indexOf(',');
+  const line = (comma >= 0 ? text.slice(0, comma) : text).trim();
+  const rest = comma >= 0 ? text.slice(comma + 1).trim() : '';
+
+  const m = line.match(HOUSE_NUMBER_RE);
+  if (!m) return { street: line, houseNumber: '', rest };
+  return { street: m[1].trim(), houseNumber: m[2].trim(), rest };
+}
+
+/** "5 A" -> "5a", "5 / 2" -> "5/2" */
+export function normalizeHouseNumber(houseNumber: string): string {
+  return foldText(houseNumber).replace(/\s+/g, '');
+}
+
+/**
+ * Canonical street name: folded, suffix unified and written as one word,
+ * so "Hauptstraße", "Hauptstr." and "Haupt Strasse" all become "hauptstr".
+ */
+export function normalizeStreet(street: string): string {
+  let s = foldText(street)
+    .replace(/[^a-z0-9. ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  for (const [re, canonical] of STREET_SUFFIXES) {
+    if (re.test(s)) {
+      s = s.replace(re, canonical);
+      break;
+    }
+  }
+
+  return s.replace(/[. ]/g, '');
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             House number order                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Natural order for house numbers: 2 < 2/1 < 2a < 10 < 10-12. Entries without
+ * a number go last.
+ */
+export function compareHouseNumbers(a: string, b: string): number {
+  const na = normalizeHouseNumber(a);
+  const nb = normalizeHouseNumber(b);
+  if (!na || !nb) return na ? -1 : nb ? 1 : 0;
+  return na.localeCompare(nb, 'de', { numeric: true });
+}
@@ -1,6 +1,6 @@
 // lib/types.ts
 export type Address = {
-  id: number; // unique identifier, required
+  id: string; // stable unique identifier, see lib/ids.ts
   addressCode: string; // external ID (adrcd-subcd)
   address: string; // human-readable address
   region: string; // grouping key (e.g. PLZ or region name)
@@ -23,4 +23,173 @@ export type Address = {
 
   notes: string; // required, can be empty string
   imported?: boolean; // system flag
-};
\ No newline at end of file
+  sourceSheet?: string; // worksheet the row was imported from
+  sourceFile?: string; // file name the row was imported from
+  sourceRow?: number; // 1-based row number in the source sheet
+  batchId?: string; // ImportBatch that created the row
+  editedAt?: number; // last manual edit (ms since epoch), protects the row on batch rollback
+  previousValues?: Partial<Record<keyof Address, unknown>>; // values before local edits since import / last delta export
+};
+
+// Import field targets: every Address column plus the two source-only contract
+// columns that get combined into contractStatus during import.
+export type ImportField =
+  | 'address'
+  | 'addressCode'
+  | 'region'
+  | 'ano'
+  | 'status'
+  | 'homes'
+  | 'l1OfferSent'
+  | 'salesContract'
+  | 'contractStatus'
+  | 'price'
+  | 'provisionCategory'
+  | 'buildingCompany'
+  | 'kgNumber'
+  | 'completionPlanned'
+  | 'completionDone'
+  | 'd2dStart'
+  | 'd2dEnd'
+  | 'outdoorFee'
+  | 'notes';
+
+// Source header -> target field (null = column is ignored)
+export type ColumnMapping = Record<string, ImportField | null>;
+
+// Worksheet overview shown in the import wizard
+export type SheetInfo = {
+  name: string;
+  rowCount: number; // data rows, header excluded
+  headers: string[];
+};
+
+// skip = only add rows whose address is new; upsert = update existing rows matched by addressCode
+export type ImportMode = 'skip' | 'upsert';
+
+// One importExcelFiles run, kept so its rows can be traced and rolled back
+export type ImportBatch = {
+  id: string;
+  createdAt: string; // ISO timestamp
+  fileNames: string[];
+  mode: ImportMode;
+  totalProcessed: number;
+  imported: number; // rows inserted by this batch
+  updated: number; // upsert: existing rows changed (not undone on rollback)
+  duplicatesSkipped: number;
+  heldForReview: number;
+};
+
+// all = whole portfolio, filtered = current search/filter result, groups = chosen groups of the view,
+// changed = only rows edited since import or the last change export (delta export)
+export type ExportScope = 'all' | 'filtered' | 'groups' | 'changed';
+
+// ics = calendar of D2D windows and planned completions, ignores the column choice
+export type ExportFormat = 'xlsx' | 'csv' | 'ics';
+
+// Capacitor Filesystem directory a native export is written to
+export type NativeDirectory = 'DOCUMENTS' | 'CACHE';
+
+export type ExportOptions = {
+  scope: ExportScope;
+  groups: string[]; // only used with scope 'groups'
+  columns: string[]; // export headers in output order
+  format: ExportFormat;
+  fileNameTemplate: string;
+  nativeDirectory: NativeDirectory;
+};
+
+// List view settings of AddressManager
+// Facets of the filter panel; contract and notes cover the former filter dropdown
+export type FacetKey =
+  | 'contract'
+  | 'notes'
+  | 'status'
+  | 'ano'
+  | 'buildingCompany'
+  | 'provisionCategory'
+  | 'completionDone'
+  | 'outdoorFee'
+  | 'region'
+  | 'plz';
+
+export type RangeKey = 'homes' | 'price';
+
+export type FacetFilters = {
+  selected: Partial<Record<FacetKey, string[]>>; // any value within a facet, every facet must match
+  ranges: Partial<Record<RangeKey, { min: number; max: number }>>;
+};
+
+// Groups of the list: one per PLZ or one per region
+export type GroupOption = 'PLZ' | 'Region';
+
+// Every Address column plus PLZ and house number derived from the address
+export type SortField = Exclude<ImportField, 'l1OfferSent' | 'salesContract'> | 'plz' | 'houseNumber';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type SortKey = { field: SortField; direction: SortDirection };
+
+export type ViewState = {
+  searchTerm: string;
+  facets: FacetFilters;
+  groupBy: GroupOption;
+  sortKeys: SortKey[]; // first key decides, later keys break ties
+  expandedGroups: string[];
+};
+
+// Per-file import instructions collected before importExcelFiles runs
+export type FileImportPlan = {
+  sheets?: string[]; // worksheets to import (default: first sheet)
+  mapping?: ColumnMapping; // applies to every selected sheet of the file
+};
+
+// skipped = row not imported, coerced = value changed while parsing, suspicious = imported but worth a look
+export type ImportIssueKind = 'skipped' | 'coerced' | 'suspicious';
+
+// One finding of the import validation report
+export type ImportIssue = {
+  fileName: string;
+  sheet: string;
+  row: number; // 1-based row number as shown in Excel
+  column: string; // source header ('' if the whole row is affected)
+  rawValue: string;
+  kind: ImportIssueKind;
+  message: string;
+};
+
+// Likely duplicate held back during import until the user decides
+export type DuplicateCandidate = {
+  incoming: Address; // row from the import, not yet in the portfolio
+  existing: Address; // best matching portfolio (or earlier batch) row
+  score: number; // 0..1 similarity
+};
+
+export type DuplicateDecision = 'keep-both' | 'keep-existing' | 'keep-incoming' | 'merge';
+
+// queued = waiting for the running import, parsing = being read, done/failed = finished
+export type FileImportStatus = 'queued' | 'parsing' | 'done' | 'failed';
+
+// Row-based progress of one file during import
+export type ImportProgress = {
+  fileIndex: number;
+  fileName: string;
+  processedRows: number;
+  totalRows: number; // 0 while the file is still being read
+  status: FileImportStatus;
+};
+
+// Outcome of one file of an import; a failed file keeps the rows read before the error
+export type FileImportResult = {
+  fileName: string;
+  status: 'done' | 'failed';
+  processed: number;
+  imported: number;
+  updated: number; // upsert mode only
+  duplicatesSkipped: number;
+  unchanged: number;
+  conflicts: number;
+  heldForReview: number;
+  invalid: number; // rows skipped because the address is missing
+  error?: string; // failed files only
+};
@@ -0,0 +1,117 @@
+// lib/validation.ts
+import type { Address, ImportField, ImportIssue, ImportIssueKind } from './types';
+import { fieldsOfKind, normalizeNumberLike } from './schema';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Issue before file/sheet/row are attached by the importer
+export type RowIssue = {
+  column: string;
+  rawValue: string;
+  kind: ImportIssueKind;
+  message: string;
+};
+
+const INT_FIELDS: readonly ImportField[] = fieldsOfKind('int');
+const FLOAT_FIELDS: readonly ImportField[] = fieldsOfKind('float');
+
+const BOOLEAN_WORDS = new Set(['yes', 'no', 'true', 'false', '1', '0', 'ja', 'nein', 'y', 'n', 'x', '-']);
+
+// Anything above is almost certainly a typo or a unit mix-up
+const MAX_PLAUSIBLE_HOMES = 1000;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Utilities                                  */
+/* -------------------------------------------------------------------------- */
+
+function firstFilled(row: Record<string, unknown>, headers: readonly string[]): { header: string; raw: string } | null {
+  for (const header of headers) {
+    const v = row[header];
+    if (v !== undefined && v !== null && String(v).trim() !== '') return { header, raw: String(v) };
+  }
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Row validation                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Inspect one source row after createAddress ran: report values that could
+ * not be parsed as-is and imported values that look implausible.
+ */
+export function validateRow(
+  row: Record<string, unknown>,
+  fields: Record<ImportField, readonly string[]>,
+  address: Address
+): RowIssue[] {
+  const issues: RowIssue[] = [];
+
+  for (const field of [...INT_FIELDS, ...FLOAT_FIELDS]) {
+    const hit = firstFilled(row, fields[field]);
+    if (!hit) continue;
+    const text = normalizeNumberLike(hit.raw);
+    if (!/^[-+]?\d+(\.\d+)?$/.test(text)) {
+      issues.push({ column: hit.header, rawValue: hit.raw, kind: 'coerced', message: 'Kein gültiger Zahlenwert – als 0 bzw. Teilwert übernommen' });
+    } else if (INT_FIELDS.includes(field) && text.includes('.')) {
+      issues.push({ column: hit.header, rawValue: hit.raw, kind: 'coerced', message: 'Nachkommastellen abgeschnitten' });
+    }
+  }
+
+  const done = firstFilled(row, fields.completionDone);
+  if (done && !BOOLEAN_WORDS.has(done.raw.trim().toLowerCase())) {
+    issues.push({ column: done.header, rawValue: done.raw, kind: 'coerced', message: 'Unbekannter Ja/Nein-Wert – als „Nein“ übernommen' });
+  }
+
+  const addressColumn = firstFilled(row, fields.address)?.header ?? fields.address[0] ?? '';
+  if (!/\d/.test(address.address.split(',')[0] ?? '')) {
+    issues.push({ column: addressColumn, rawValue: address.address, kind: 'suspicious', message: 'Keine Hausnummer erkannt' });
+  }
+  if (!/\b[1-9]\d{3}\b/.test(address.address)) {
+    issues.push({ column: addressColumn, rawValue: address.address, kind: 'suspicious', message: 'Keine PLZ erkannt' });
+  }
+
+  if (fields.addressCode.length > 0 && !address.addressCode) {
+    issues.push({ column: fields.addressCode[0], rawValue: '', kind: 'suspicious', message: 'adrcd-subcd fehlt' });
+  }
+
+  if (address.homes < 0 || address.homes > MAX_PLAUSIBLE_HOMES) {
+    const hit = firstFilled(row, fields.homes);
+    issues.push({ column: hit?.header ?? '', rawValue: hit?.raw ?? String(address.homes), kind: 'suspicious', message: 'Unplausible Anzahl Homes' });
+  }
+  if (address.price < 0) {
+    const hit = firstFilled(row, fields.price);
+    issues.push({ column: hit?.header ?? '', rawValue: hit?.raw ?? String(address.price), kind: 'suspicious', message: 'Negativer Preis' });
+  }
+
+  return issues;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CSV report                                 */
+/* -------------------------------------------------------------------------- */
+
+export const ISSUE_KIND_LABELS: Record<ImportIssueKind, string> = {
+  skipped: 'Übersprungen',
+  coerced: 'Umgewandelt',
+  suspicious: 'Auffällig',
+};
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",;\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Semicolon separated so it opens directly in German Excel. */
+export function issuesToCSV(issues: ImportIssue[]): string {
+  const header = ['Datei', 'Blatt', 'Zeile', 'Spalte', 'Rohwert', 'Art', 'Hinweis'];
+  const lines = [header.join(';')];
+  for (const i of issues) {
+    lines.push(
+      [i.fileName, i.sheet, i.row, i.column, i.rawValue, ISSUE_KIND_LABELS[i.kind], i.message].map(csvCell).join(';')
+    );
+  }
+  return lines.join('\r\n');
+}
@@ -0,0 +1,124 @@
+// lib/views.ts
+import type { SortKey, ViewState } from './types';
+import { DEFAULT_VIEW_STATE, toViewState } from './project';
+import { FACETS, RANGES } from './facets';
+
+/* -------------------------------------------------------------------------- */
+/*                                  Settings                                  */
+/* -------------------------------------------------------------------------- */
+
+const PRESET_STORAGE_KEY = 'address-manager-pro:view-presets';
+
+// Query parameter names; facets and ranges use their own key (plz=4541, homes=2..8)
+const SEARCH_PARAM = 'q';
+const GROUP_PARAM = 'group';
+const SORT_PARAM = 'sort'; // sort=-homes,price,address: minus = descending
+const EXPANDED_PARAM = 'open';
+
+/* -------------------------------------------------------------------------- */
+/*                                    URL                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Query string for a view, e.g. ?q=haupt&contract=ohne&plz=4541&sort=-homes,address.
+ * Defaults are left out so the plain app URL stays the default view.
+ */
+export function viewToSearchParams(view: ViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.searchTerm) params.set(SEARCH_PARAM, view.searchTerm);
+  for (const { key } of FACETS) {
+    for (const value of view.facets.selected[key] ?? []) params.append(key, value);
+  }
+  for (const { key } of RANGES) {
+    const range = view.facets.ranges[key];
+    if (range) params.set(key, `${range.min}..${range.max}`);
+  }
+  if (view.groupBy !== DEFAULT_VIEW_STATE.groupBy) params.set(GROUP_PARAM, view.groupBy);
+  const sort = formatSortKeys(view.sortKeys);
+  if (sort !== formatSortKeys(DEFAULT_VIEW_STATE.sortKeys)) params.set(SORT_PARAM, sort);
+  for (const group of view.expandedGroups) params.append(EXPANDED_PARAM, group);
+  return params;
+}
+
+function formatSortKeys(keys: readonly SortKey[]): string {
+  return keys.map(k => (k.direction === 'desc' ? '-' : '') + k.field).join(',');
+}
+
+// Field names are checked by toViewState
+function parseSortKeys(text: string): { field: string; direction: string }[] {
+  return text
+    .split(',')
+    .filter(Boolean)
+    .map(part => (part.startsWith('-') ? { field: part.slice(1), direction: 'desc' } : { field: part, direction: 'asc' }));
+}
+
+/** Read a view from the query string; unknown or malformed parameters are ignored. */
+export function viewFromSearchParams(params: Pick<URLSearchParams, 'get' | 'getAll' | 'has'>): ViewState {
+  const selected: Record<string, string[]> = {};
+  for (const { key } of FACETS) {
+    const values = params.getAll(key);
+    if (values.length) selected[key] = values;
+  }
+  const ranges: Record<string, { min: number; max: number }> = {};
+  for (const { key } of RANGES) {
+    const match = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(params.get(key) ?? '');
+    if (match) ranges[key] = { min: Number(match[1]), max: Number(match[2]) };
+  }
+
+  return toViewState({
+    searchTerm: params.get(SEARCH_PARAM) ?? undefined,
+    facets: { selected, ranges },
+    groupBy: params.get(GROUP_PARAM) ?? undefined,
+    sortKeys: params.has(SORT_PARAM) ? parseSortKeys(params.get(SORT_PARAM)!) : undefined,
+    expandedGroups: params.getAll(EXPANDED_PARAM),
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Presets                                   */
+/* -------------------------------------------------------------------------- */
+
+export type ViewPreset = {
+  name: string;
+  view: ViewState;
+  updatedAt: number;
+};
+
+export function loadViewPresets(): ViewPreset[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(PRESET_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(p => p && typeof p.name === 'string')
+      .map(p => ({ name: p.name, view: toViewState(p.view), updatedAt: Number(p.updatedAt) || 0 }));
+  } catch (error) {
+    console.warn('Failed to read view presets:', error);
+    return [];
+  }
+}
+
+function storeViewPresets(presets: ViewPreset[]): void {
+  try {
+    window.localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Failed to store view presets:', error);
+    throw new Error('Ansicht konnte nicht gespeichert werden');
+  }
+}
+
+/** Save (or overwrite by name) a preset; the list stays sorted by name. */
+export function saveViewPreset(name: string, view: ViewState): ViewPreset {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Name der Ansicht fehlt');
+
+  const preset: ViewPreset = { name: trimmed, view, updatedAt: Date.now() };
+  const others = loadViewPresets().filter(p => p.name !== trimmed);
+  storeViewPresets([...others, preset].sort((a, b) => a.name.localeCompare(b.name, 'de')));
+  return preset;
+}
+
+export function deleteViewPreset(name: string): void {
+  storeViewPresets(loadViewPresets().filter(p => p.name !== name));
+}
@@ -0,0 +1,177 @@
+// lib/walklist.ts
+import type { Address } from './types';
+import { compareHouseNumbers, normalizeStreet, splitStreetAndNumber } from './street';
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type WalkListRow = {
+  houseNumber: string;
+  address: string;
+  homes: number;
+  hasContract: boolean;
+  status: string;
+  notes: string;
+};
+
+export type WalkListStreet = {
+  street: string;
+  rows: WalkListRow[];
+};
+
+export type WalkList = {
+  title: string; // group name, e.g. "PLZ 4541"
+  plzs: string[];
+  campaignStart: string[]; // distinct d2dStart values as written
+  campaignEnd: string[];
+  streets: WalkListStreet[];
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  Building                                  */
+/* -------------------------------------------------------------------------- */
+
+function distinctFilled(values: Array<string | undefined>): string[] {
+  return [...new Set(values.map(v => (v ?? '').trim()).filter(Boolean))];
+}
+
+/**
+ * Order a group by street and house number. Spelling variants of the same
+ * street ("Hauptstr." / "Hauptstraße") end up on the same page.
+ */
+export function buildWalkList(title: string, rows: Address[], plzs: string[] = []): WalkList {
+  const streets = new Map<string, { street: string; items: Array<{ parts: ReturnType<typeof splitStreetAndNumber>; addr: Address }> }>();
+
+  for (const addr of rows) {
+    const parts = splitStreetAndNumber(addr.address);
+    const key = normalizeStreet(parts.street) || parts.street;
+    let entry = streets.get(key);
+    if (!entry) streets.set(key, (entry = { street: parts.street || 'Ohne Straße', items: [] }));
+    entry.items.push({ parts, addr });
+  }
+
+  const ordered = [...streets.values()].sort((a, b) => a.street.localeCompare(b.street, 'de'));
+
+  return {
+    title,
+    plzs: [...new Set(plzs)].sort(),
+    campaignStart: distinctFilled(rows.map(a => a.d2dStart)),
+    campaignEnd: distinctFilled(rows.map(a => a.d2dEnd)),
+    streets: ordered.map(({ street, items }) => ({
+      street,
+      rows: items
+        .sort((a, b) => compareHouseNumbers(a.parts.houseNumber, b.parts.houseNumber))
+        .map(({ parts, addr }) => ({
+          houseNumber: parts.houseNumber,
+          address: addr.address,
+          homes: addr.homes ?? 0,
+          hasContract: (addr.contractStatus ?? 0) > 0,
+          status: addr.status || '',
+          notes: addr.notes || '',
+        })),
+    })),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Print view                                 */
+/* -------------------------------------------------------------------------- */
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!);
+}
+
+const PRINT_STYLES = `
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 10pt; color: #111; margin: 0; }
+  section { break-after: page; page-break-after: always; }
+  section:last-of-type { break-after: auto; page-break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #111; padding-bottom: 4pt; margin-bottom: 8pt; }
+  h1 { font-size: 14pt; margin: 0; }
+  h2 { font-size: 12pt; margin: 0 0 6pt; }
+  .meta { font-size: 9pt; text-align: right; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  th, td { border: 1px solid #999; padding: 4pt 5pt; vertical-align: top; text-align: left; }
+  th { background: #eee; font-size: 9pt; }
+  .num { text-align: center; white-space: nowrap; }
+  .box { text-align: center; width: 28pt; }
+  .box span { display: inline-block; width: 10pt; height: 10pt; border: 1px solid #111; }
+  .outcome { width: 25%; }
+  @media screen { body { padding: 16px; background: #f3f4f6; } section { background: #fff; padding: 16px; margin-bottom: 16px; } }
+`;
+
+function renderHeader(list: WalkList): string {
+  const plz = list.plzs.length > 0 ? `PLZ ${list.plzs.join(', ')}` : '';
+  const start = list.campaignStart.join(', ') || '–';
+  const end = list.campaignEnd.join(', ') || '–';
+  return `<header>
+    <div><h1>${escapeHtml(list.title)}</h1>${plz ? `<div>${escapeHtml(plz)}</div>` : ''}</div>
+    <div class="meta">D2D-Vertrieb: ${escapeHtml(start)} bis ${escapeHtml(end)}<br>Gedruckt am ${new Date().toLocaleDateString('de-DE')}</div>
+  </header>`;
+}
+
+function renderStreet(list: WalkList, street: WalkListStreet): string {
+  const rows = street.rows
+    .map(
+      row => `<tr>
+        <td class="num">${escapeHtml(row.houseNumber || '–')}</td>
+        <td>${escapeHtml(row.address)}</td>
+        <td class="num">${row.homes}</td>
+        <td>${row.hasContract ? 'Vertrag' : 'Kein Vertrag'}</td>
+        <td>${escapeHtml(row.status)}</td>
+        <td>${escapeHtml(row.notes)}</td>
+        <td class="box"><span></span></td>
+        <td class="box"><span></span></td>
+        <td class="box"><span></span></td>
+        <td class="outcome"></td>
+      </tr>`
+    )
+    .join('');
+
+  return `<section>
+    ${renderHeader(list)}
+    <h2>${escapeHtml(street.street)} (${street.rows.length})</h2>
+    <table>
+      <thead><tr>
+        <th>Nr.</th><th>Adresse</th><th>Homes</th><th>Vertrag</th><th>Status</th><th>Notizen</th>
+        <th class="box">Besucht</th><th class="box">Nicht da</th><th class="box">Interesse</th><th class="outcome">Ergebnis</th>
+      </tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </section>`;
+}
+
+/** Complete printable HTML document, one page (or more) per street */
+export function renderWalkListHtml(list: WalkList): string {
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+<meta charset="utf-8">
+<title>Laufliste ${escapeHtml(list.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${list.streets.map(street => renderStreet(list, street)).join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * Open the walk list in a new window and bring up the print dialog, from
+ * where it can also be saved as PDF. Must run from a click handler, or the
+ * popup blocker steps in.
+ */
+export function printWalkList(list: WalkList): void {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Druckansicht konnte nicht geöffnet werden – bitte Pop-ups erlauben.');
+
+  win.document.open();
+  win.document.write(renderWalkListHtml(list));
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before printing
+  win.setTimeout(() => win.print(), 250);
+}
@@ -0,0 +1,50 @@
+// scripts/verify-export-round-trip.ts
+// Exports a set of tricky rows to CSV, re-imports them through the regular
+// import parser and exits non-zero when any field comes back different.
+// Run with: npm run verify:export
+import type { Address } from '../lib/types';
+import { verifyExportRoundTrip } from '../lib/excel';
+
+const base: Address = {
+  id: 'rt-0',
+  addressCode: '1001-1',
+  address: 'Hauptstraße 1, 4541, Adlwang',
+  region: 'Adlwang',
+  homes: 1,
+  contractStatus: 0,
+  price: 0,
+  completionDone: false,
+  notes: '',
+};
+
+// Each row targets one way a value could be mangled on the way out and back in
+const SAMPLES: Partial<Address>[] = [
+  { price: 1.234 }, // looks like a thousands separator
+  { price: 1234.5 },
+  { price: 1234567.25 },
+  { price: 0.5 },
+  { price: 99 },
+  { homes: 1200, contractStatus: 2 },
+  { address: 'Emsenhuber Straße 12a, 4541, Adlwang', notes: 'Hund; "bissig", bitte klingeln' },
+  { notes: 'Zeile 1\nZeile 2' },
+  { status: '100 In Betrieb', ano: 'Müller & Söhne', buildingCompany: 'Bau, GmbH' },
+  { completionDone: true, completionPlanned: '15.01.2025', d2dStart: '01.06.2024', d2dEnd: '31.05.2025' },
+  { kgNumber: '45101', provisionCategory: 'A', outdoorFee: 'Ja' },
+];
+
+async function main(): Promise<void> {
+  const addresses = SAMPLES.map((patch, i) => ({ ...base, ...patch, id: `rt-${i}`, addressCode: `1001-${i}` }));
+  const mismatches = await verifyExportRoundTrip(addresses);
+
+  if (mismatches.length > 0) {
+    console.error(`Export round trip changed ${mismatches.length} value(s):`);
+    for (const m of mismatches) console.error(`  ${m.id} ${String(m.field)}: ${JSON.stringify(m.exported)} -> ${JSON.stringify(m.reimported)}`);
+    process.exit(1);
+  }
+  console.log(`Export round trip OK (${addresses.length} rows)`);
+}
+
+main().catch(error => {
+  console.error('Export round trip check failed:', error);
+  process.exit(1);
+});